@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { toJSONTransaction } from '@/lib/api';
+import { createTickPacer } from '@/lib/feeds';
+import { SEED_EPOCH_MS } from '@/lib/generator';
+import { createRandom } from '@/lib/random';
+import { createMarketSimulator, marketPresets, type MarketPreset } from '@/lib/simulator';
+import { toNanos } from '@/lib/transaction';
+
+export const dynamic = 'force-dynamic';
+
+const TICK_MS = 100;
+const MAX_RATE = 100000;
+
+// GET /api/feed?preset=volatile&rate=1000&seed=demo
+// Server-Sent Events stream of simulated trades: one "trades" event per
+// 100ms tick that has trades due, carrying a JSON array, timestamps as ns
+// digit strings.
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const preset = params.get('preset') ?? 'calm';
+  if (!(preset in marketPresets)) return NextResponse.json({ error: `Unknown preset: ${preset}` }, { status: 400 });
+  const rate = Number(params.get('rate') ?? 1000);
+  if (!Number.isFinite(rate) || rate < 1 || rate > MAX_RATE) {
+    return NextResponse.json({ error: `rate must be between 1 and ${MAX_RATE}` }, { status: 400 });
+  }
+  const seed = params.get('seed');
+  const simulator = createMarketSimulator(
+    { ...marketPresets[preset as MarketPreset].config, arrivalRate: rate },
+    seed ? { random: createRandom(seed), startTime: toNanos(SEED_EPOCH_MS) } : {}
+  );
+
+  const encoder = new TextEncoder();
+  let timer: ReturnType<typeof setInterval> | null = null;
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode('retry: 1000\n\n'));
+      const due = createTickPacer(TICK_MS);
+      timer = setInterval(() => {
+        const count = due(rate);
+        if (count === 0) return;
+        const trades = simulator.batch(count).map(toJSONTransaction);
+        controller.enqueue(encoder.encode(`event: trades\ndata: ${JSON.stringify(trades)}\n\n`));
+      }, TICK_MS);
+      request.signal.addEventListener('abort', () => {
+        if (timer) clearInterval(timer);
+        try {
+          controller.close();
+        } catch (error) {
+          // Already closed by the runtime
+        }
+      });
+    },
+    cancel() {
+      if (timer) clearInterval(timer);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
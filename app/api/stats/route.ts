@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { getStats } from '@/lib/api';
+
+// Stats change with every POST, so never serve a build-time snapshot
+export const dynamic = 'force-dynamic';
+
+// GET /api/stats: sort counts per algorithm and the latest benchmark run
+export async function GET() {
+  return NextResponse.json(getStats());
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { decodeCursor, getBatch, pageOf, parsePageSize } from '@/lib/api';
+
+// GET /api/trades/{batch}?cursor=...&limit=100
+// Pages through a sorted batch; follow nextCursor until it is null.
+export async function GET(request: Request, { params }: { params: { batch: string } }) {
+  const batch = getBatch(params.batch);
+  if (!batch) return NextResponse.json({ error: `Unknown or expired batch: ${params.batch}` }, { status: 404 });
+
+  const query = new URL(request.url).searchParams;
+  const pageSize = parsePageSize(query.get('limit'));
+  if (pageSize === null) return NextResponse.json({ error: 'limit must be an integer between 1 and 1000' }, { status: 400 });
+  const cursor = query.get('cursor');
+  const offset = cursor === null ? 0 : decodeCursor(batch.id, cursor);
+  if (offset === null) return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+
+  return NextResponse.json({ algorithm: batch.algorithm, key: batch.key, ...pageOf(batch, offset, pageSize) });
+}
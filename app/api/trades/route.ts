@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { getAlgorithm, listAlgorithms, parseSortSpecs, transactionSortKey } from '@/lib/sorting';
+import { runBenchmark, toRows } from '@/lib/benchmark';
+import { BodyTooLargeError, pageOf, parsePageSize, parseTradeBody, recordBenchmark, storeBatch } from '@/lib/api';
+import type { Transaction } from '@/lib/transaction';
+
+// Largest batch accepted in one request
+const MAX_TRADES = 1000000;
+const MAX_BODY_BYTES = 256 * 1024 * 1024;
+// Benchmarks time every algorithm several times on the request thread
+const MAX_BENCHMARK_TRADES = 20000;
+// Rejected rows echoed back; errorCount is always exact
+const MAX_REPORTED_ERRORS = 100;
+
+const badRequest = (error: string, status = 400) => NextResponse.json({ error }, { status });
+
+// POST /api/trades?sort=symbol,-price&algorithm=radix-8&limit=100&benchmark=1
+// Sorts the posted trades, keeps the result for paging and returns the
+// first page. With benchmark=1 every algorithm that can sort the trades is
+// also timed, and the results become the latest stats.
+export async function POST(request: Request) {
+  const params = new URL(request.url).searchParams;
+
+  let key;
+  let algorithm;
+  try {
+    key = transactionSortKey(parseSortSpecs(params.get('sort') ?? 'price'));
+    algorithm = getAlgorithm(params.get('algorithm') ?? 'radix-8');
+  } catch (error) {
+    return badRequest((error as Error).message);
+  }
+  if (!algorithm.supports(key)) return badRequest(`${algorithm.name} cannot sort by ${key.name}`);
+  const pageSize = parsePageSize(params.get('limit'));
+  if (pageSize === null) return badRequest('limit must be an integer between 1 and 1000');
+
+  const benchmark = params.get('benchmark') === '1' || params.get('benchmark') === 'true';
+
+  let report;
+  try {
+    report = await parseTradeBody(request, { maxTrades: benchmark ? MAX_BENCHMARK_TRADES : MAX_TRADES, maxBytes: MAX_BODY_BYTES });
+  } catch (error) {
+    return badRequest((error as Error).message, error instanceof BodyTooLargeError ? 413 : 400);
+  }
+  const errors = report.errors.slice(0, MAX_REPORTED_ERRORS);
+  if (report.transactions.length === 0) {
+    return NextResponse.json({ error: 'No valid trades', errorCount: report.errorCount, errors }, { status: 422 });
+  }
+  // e.g. counting sort and a price range too wide for its table
+  if (!algorithm.supports(key, report.transactions)) {
+    return badRequest(`${algorithm.name} cannot sort these trades by ${key.name}; try another algorithm`, 422);
+  }
+
+  let result;
+  let rows;
+  try {
+    result = algorithm.sort(report.transactions, key);
+    if (benchmark) {
+      const sorters = listAlgorithms().filter(candidate => candidate.supports(key, report.transactions));
+      rows = toRows(runBenchmark<Transaction>(report.transactions, key, sorters, { warmup: 1, trials: 5 }), 'api');
+    }
+  } catch (error) {
+    return badRequest(`Sorting failed: ${(error as Error).message}`, 422);
+  }
+  if (rows) recordBenchmark(rows);
+
+  const batch = {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    algorithm: algorithm.name,
+    key: key.name,
+    time: result.time,
+    transactions: result.sorted,
+  };
+  storeBatch(batch);
+
+  return NextResponse.json(
+    {
+      batch: batch.id,
+      algorithm: batch.algorithm,
+      key: batch.key,
+      count: batch.transactions.length,
+      time: batch.time,
+      timestampFormat: report.timestampFormat,
+      errorCount: report.errorCount,
+      errors,
+      page: pageOf(batch, 0, pageSize),
+    },
+    { status: 201 }
+  );
+}
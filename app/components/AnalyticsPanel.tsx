@@ -0,0 +1,179 @@
+'use client';
+
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { BAR_INTERVALS, type BarInterval, type Candle, type SymbolSummary } from '@/lib/analytics';
+
+interface AnalyticsPanelProps {
+  summaries: SymbolSummary[];
+  candles: Candle[];
+  symbol: string;
+  onSymbolChange: (symbol: string) => void;
+  interval: BarInterval;
+  onIntervalChange: (interval: BarInterval) => void;
+}
+
+interface CandleRow {
+  time: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  vwap: number;
+  volume: number;
+  range: [number, number];
+}
+
+// Recharts has no candlestick series, so a range bar spanning low..high
+// draws each candle: the bar's box is the wick and open/close are placed
+// within it by linear interpolation
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: CandleRow;
+}
+
+const CandleShape = ({ x = 0, y = 0, width = 0, height = 0, payload }: CandleShapeProps) => {
+  if (!payload) return <g />;
+  const { open, close, high, low } = payload;
+  const up = close >= open;
+  const color = up ? '#10B981' : '#EF4444';
+  const toY = (price: number) => (high === low ? y : y + ((high - price) / (high - low)) * height);
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(1, Math.abs(toY(open) - toY(close)));
+  const center = x + width / 2;
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} />
+      <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} fill={color} />
+    </g>
+  );
+};
+
+const tooltipStyle = {
+  backgroundColor: '#1F2937',
+  border: '1px solid #374151',
+  borderRadius: '8px'
+};
+
+const AnalyticsPanel = ({ summaries, candles, symbol, onSymbolChange, interval, onIntervalChange }: AnalyticsPanelProps) => {
+  const rows: CandleRow[] = candles.map(candle => ({
+    time: new Date(Number(candle.start / BigInt(1000000))).toLocaleTimeString(),
+    open: candle.open,
+    high: candle.high,
+    low: candle.low,
+    close: candle.close,
+    vwap: candle.vwap,
+    volume: candle.volume,
+    range: [candle.low, candle.high],
+  }));
+  const low = Math.min(...rows.map(row => row.low));
+  const high = Math.max(...rows.map(row => row.high));
+  const pad = Math.max(0.01, (high - low) * 0.05);
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-6 mb-6 border border-slate-700">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-xl font-bold">Market Analytics</h3>
+        <div className="flex gap-2">
+          <select
+            value={symbol}
+            onChange={(e) => onSymbolChange(e.target.value)}
+            className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
+          >
+            {summaries.map(summary => (
+              <option key={summary.symbol} value={summary.symbol}>{summary.symbol}</option>
+            ))}
+          </select>
+          <select
+            value={interval}
+            onChange={(e) => onIntervalChange(e.target.value as BarInterval)}
+            className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
+          >
+            {(Object.keys(BAR_INTERVALS) as BarInterval[]).map(option => (
+              <option key={option} value={option}>{BAR_INTERVALS[option].label} bars</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {summaries.length === 0 ? (
+        <p className="text-sm text-gray-400">Analytics appear after the first batch.</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto mb-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-600">
+                  <th className="text-left p-2">Symbol</th>
+                  <th className="text-right p-2">Last</th>
+                  <th className="text-right p-2">VWAP</th>
+                  <th className="text-right p-2">High</th>
+                  <th className="text-right p-2">Low</th>
+                  <th className="text-right p-2">Volume</th>
+                  <th className="text-right p-2">Trades</th>
+                  <th className="text-right p-2" title={`Over the retained ${BAR_INTERVALS[interval].label} bars`}>Realized Vol</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summaries.map(summary => (
+                  <tr
+                    key={summary.symbol}
+                    onClick={() => onSymbolChange(summary.symbol)}
+                    className={`border-b border-slate-700/50 cursor-pointer hover:bg-slate-700/30 ${summary.symbol === symbol ? 'bg-slate-700/40' : ''}`}
+                  >
+                    <td className="p-2 font-mono">{summary.symbol}</td>
+                    <td className="p-2 text-right font-mono">${summary.last.toFixed(2)}</td>
+                    <td className="p-2 text-right font-mono">${summary.vwap.toFixed(2)}</td>
+                    <td className="p-2 text-right font-mono">${summary.high.toFixed(2)}</td>
+                    <td className="p-2 text-right font-mono">${summary.low.toFixed(2)}</td>
+                    <td className="p-2 text-right font-mono">{summary.volume.toLocaleString()}</td>
+                    <td className="p-2 text-right font-mono">{summary.trades.toLocaleString()}</td>
+                    <td className="p-2 text-right font-mono">{(summary.realizedVol * 100).toFixed(2)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <h4 className="font-semibold mb-2">{symbol} candles with VWAP</h4>
+              <ResponsiveContainer width="100%" height={300}>
+                <ComposedChart data={rows}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="time" stroke="#9CA3AF" />
+                  <YAxis stroke="#9CA3AF" domain={[low - pad, high + pad]} tickFormatter={(value: number) => value.toFixed(2)} />
+                  <Tooltip
+                    contentStyle={tooltipStyle}
+                    formatter={(value: number | [number, number], name: string) =>
+                      Array.isArray(value) ? [`$${value[0].toFixed(2)} - $${value[1].toFixed(2)}`, 'Low - High'] : [`$${value.toFixed(2)}`, name]
+                    }
+                  />
+                  <Bar dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+                  <Line type="monotone" dataKey="vwap" stroke="#F59E0B" dot={false} name="VWAP" isAnimationActive={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+            <div>
+              <h4 className="font-semibold mb-2">Volume</h4>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={rows}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="time" stroke="#9CA3AF" />
+                  <YAxis stroke="#9CA3AF" />
+                  <Tooltip contentStyle={tooltipStyle} />
+                  <Bar dataKey="volume" fill="#3B82F6" name="Shares" isAnimationActive={false} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsPanel;
@@ -0,0 +1,83 @@
+'use client';
+
+import React from 'react';
+import type { DepthLevel, DepthSnapshot } from '@/lib/orderbook';
+
+interface DepthLadderProps {
+  symbols: string[];
+  symbol: string;
+  onSymbolChange: (symbol: string) => void;
+  depth: DepthSnapshot | null;
+  events: number; // order events applied so far
+  executions: number;
+}
+
+const LadderRow = ({ level, side, widest }: { level: DepthLevel; side: 'bid' | 'ask'; widest: number }) => (
+  <tr className="border-b border-slate-700/50">
+    <td className="p-1 text-right font-mono text-xs text-gray-400">{level.orders}</td>
+    <td className="p-1 relative">
+      <div
+        className={`absolute inset-y-1 right-1 rounded ${side === 'bid' ? 'bg-green-600/30' : 'bg-red-600/30'}`}
+        style={{ width: `${(level.quantity / widest) * 100}%` }}
+      />
+      <span className="relative font-mono block text-right">{level.quantity.toLocaleString()}</span>
+    </td>
+    <td className={`p-1 text-right font-mono ${side === 'bid' ? 'text-green-400' : 'text-red-400'}`}>
+      {level.price.toFixed(2)}
+    </td>
+  </tr>
+);
+
+const DepthLadder = ({ symbols, symbol, onSymbolChange, depth, events, executions }: DepthLadderProps) => {
+  const asks = depth ? [...depth.asks].reverse() : [];
+  const bids = depth?.bids ?? [];
+  const widest = Math.max(1, ...asks.map(level => level.quantity), ...bids.map(level => level.quantity));
+  const spread = depth && depth.asks[0] && depth.bids[0] ? depth.asks[0].price - depth.bids[0].price : undefined;
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-6 border border-slate-700">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h3 className="text-xl font-bold">Depth Ladder</h3>
+        <select
+          value={symbol}
+          onChange={(e) => onSymbolChange(e.target.value)}
+          className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-1 text-white focus:ring-2 focus:ring-blue-500"
+        >
+          {symbols.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+      </div>
+      <p className="text-sm text-gray-400 mb-4">
+        Synthetic order flow around the live trade prices, kept in price-time priority.
+        {' '}{events.toLocaleString()} events, {executions.toLocaleString()} executions.
+      </p>
+      {!depth || (asks.length === 0 && bids.length === 0) ? (
+        <p className="text-sm text-gray-400">Start the feed to build the book.</p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-slate-700">
+              <tr className="border-b border-slate-600">
+                <th className="text-right p-1">Orders</th>
+                <th className="text-right p-1">Size</th>
+                <th className="text-right p-1">Price</th>
+              </tr>
+            </thead>
+            <tbody>
+              {asks.map(level => <LadderRow key={`ask-${level.price}`} level={level} side="ask" widest={widest} />)}
+              <tr className="bg-slate-700/40">
+                <td colSpan={3} className="p-1 text-center text-xs text-gray-300">
+                  {spread === undefined ? 'One-sided book' : `Spread $${spread.toFixed(2)}`}
+                </td>
+              </tr>
+              {bids.map(level => <LadderRow key={`bid-${level.price}`} level={level} side="bid" widest={widest} />)}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DepthLadder;
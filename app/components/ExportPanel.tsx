@@ -0,0 +1,101 @@
+'use client';
+
+import React from 'react';
+import { Download } from 'lucide-react';
+import type { PerformancePoint } from '@/lib/benchmark';
+import {
+  encodeColumnar,
+  performanceTable,
+  tableToCSV,
+  tableToJSON,
+  transactionsTable,
+  type ExportContext,
+  type ExportMetadata,
+  type ExportTable,
+} from '@/lib/export';
+import type { Transaction } from '@/lib/transaction';
+
+type ExportFormat = 'csv' | 'json' | 'twc';
+
+const formats: { value: ExportFormat; label: string; type: string }[] = [
+  { value: 'csv', label: 'CSV', type: 'text/csv' },
+  { value: 'json', label: 'JSON', type: 'application/json' },
+  { value: 'twc', label: 'Columnar', type: 'application/octet-stream' },
+];
+
+interface ExportPanelProps {
+  sortedBatch: Transaction[];
+  transactions: Transaction[];
+  performance: PerformancePoint[];
+  metadata: ExportContext;
+}
+
+const download = (table: ExportTable, format: ExportFormat) => {
+  const { type } = formats.find(option => option.value === format)!;
+  const body = format === 'csv' ? tableToCSV(table) : format === 'json' ? tableToJSON(table) : encodeColumnar(table);
+  const url = URL.createObjectURL(new Blob([body], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `tradewiz-${table.metadata.dataset}-${table.metadata.exportedAt.replace(/[:.]/g, '-')}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ExportPanel = ({ sortedBatch, transactions, performance, metadata }: ExportPanelProps) => {
+  const datasets = [
+    {
+      name: 'sortedBatch' as const,
+      label: 'Sorted batch',
+      rows: sortedBatch.length,
+      build: (meta: ExportMetadata) => transactionsTable(sortedBatch, meta),
+    },
+    {
+      name: 'transactions' as const,
+      label: 'Transactions window',
+      rows: transactions.length,
+      build: (meta: ExportMetadata) => transactionsTable(transactions, meta),
+    },
+    {
+      name: 'performance' as const,
+      label: 'Performance history',
+      rows: performance.length,
+      build: (meta: ExportMetadata) => performanceTable(performance, meta),
+    },
+  ];
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-6 mb-6 border border-slate-700">
+      <h3 className="text-xl font-bold mb-2 flex items-center gap-2">
+        <Download size={20} />
+        Export
+      </h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Files carry the algorithm, sort key, distribution and batch size. Columnar files are little-endian TWC1; see
+        src/lib/export/formats.ts for the layout.
+      </p>
+      <div className="space-y-2">
+        {datasets.map(dataset => (
+          <div key={dataset.name} className="flex flex-wrap items-center gap-2">
+            <span className="w-48 text-sm">
+              {dataset.label} <span className="text-gray-400">({dataset.rows.toLocaleString()})</span>
+            </span>
+            {formats.map(format => (
+              <button
+                key={format.value}
+                disabled={dataset.rows === 0}
+                onClick={() =>
+                  download(dataset.build({ ...metadata, dataset: dataset.name, exportedAt: new Date().toISOString() }), format.value)
+                }
+                className="px-3 py-1 bg-slate-600 hover:bg-slate-700 disabled:opacity-50 rounded-lg text-sm transition-colors"
+              >
+                {format.label}
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ExportPanel;
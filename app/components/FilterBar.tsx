@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Filter, Link, X } from 'lucide-react';
+import { formatFilter, parseFilter } from '@/lib/filter';
+
+const SAVED_KEY = 'tradewiz.filters';
+
+interface FilterBarProps {
+  applied: string; // the filter in effect, '' for none
+  onApply: (text: string) => void;
+}
+
+const loadSaved = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SAVED_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved.filter((item): item is string => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const FilterBar = ({ applied, onApply }: FilterBarProps) => {
+  const [draft, setDraft] = useState(applied);
+  const [saved, setSaved] = useState<string[]>([]);
+  const [copied, setCopied] = useState(false);
+  // Shown for copying by hand when the clipboard is unavailable or denied
+  const [manualLink, setManualLink] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(applied);
+    setManualLink(null);
+  }, [applied]);
+  useEffect(() => setSaved(loadSaved()), []);
+
+  const trimmed = draft.trim();
+  const result = trimmed ? parseFilter(draft) : null;
+  const error = result && !result.ok ? result.error : null;
+
+  const apply = () => {
+    if (!error) onApply(trimmed);
+  };
+
+  // Saved in canonical form, matching what the page applies
+  const save = () => {
+    if (!result?.ok) return;
+    const text = formatFilter(result.expr);
+    if (saved.includes(text)) return;
+    const next = [...saved, text];
+    setSaved(next);
+    localStorage.setItem(SAVED_KEY, JSON.stringify(next));
+  };
+
+  const unsave = (text: string) => {
+    const next = saved.filter(item => item !== text);
+    setSaved(next);
+    localStorage.setItem(SAVED_KEY, JSON.stringify(next));
+  };
+
+  // The applied filter already lives in the page URL
+  const copyLink = async () => {
+    const link = window.location.href;
+    try {
+      await navigator.clipboard.writeText(link);
+      setManualLink(null);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      setManualLink(link);
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium mb-2">Query</label>
+      <div className="flex flex-wrap items-start gap-2">
+        <div className="flex-1 min-w-[280px]">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && apply()}
+            placeholder="symbol in (AAPL, NVDA) and price > 200 and side = buy"
+            spellCheck={false}
+            className={`w-full bg-slate-700 border rounded-lg px-3 py-2 text-white font-mono text-sm focus:ring-2 ${
+              error ? 'border-red-500 focus:ring-red-500' : 'border-slate-600 focus:ring-blue-500'
+            }`}
+          />
+          {error && (
+            <div className="mt-1 font-mono text-xs whitespace-pre">
+              <div className="text-gray-400 overflow-x-auto">
+                {draft.slice(0, error.start)}
+                <span className="text-red-300 underline decoration-wavy decoration-red-500">
+                  {draft.slice(error.start, error.end) || ' '}
+                </span>
+                {draft.slice(error.end)}
+              </div>
+              <div className="text-red-400 font-sans">{error.message}</div>
+            </div>
+          )}
+        </div>
+        <button
+          onClick={apply}
+          disabled={!!error || trimmed === applied}
+          className="flex items-center gap-1 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 rounded-lg text-sm font-medium transition-colors"
+        >
+          <Filter size={14} /> Apply
+        </button>
+        <button
+          onClick={() => onApply('')}
+          disabled={!applied}
+          className="flex items-center gap-1 px-3 py-2 bg-slate-600 hover:bg-slate-700 disabled:opacity-50 rounded-lg text-sm font-medium transition-colors"
+        >
+          <X size={14} /> Clear
+        </button>
+        <button
+          onClick={save}
+          disabled={!trimmed || !!error}
+          className="px-3 py-2 bg-slate-600 hover:bg-slate-700 disabled:opacity-50 rounded-lg text-sm font-medium transition-colors"
+        >
+          Save
+        </button>
+        <button
+          onClick={copyLink}
+          disabled={!applied}
+          className="flex items-center gap-1 px-3 py-2 bg-slate-600 hover:bg-slate-700 disabled:opacity-50 rounded-lg text-sm font-medium transition-colors"
+          title="Copy a link that opens the dashboard with this filter"
+        >
+          <Link size={14} /> {copied ? 'Copied' : 'Copy Link'}
+        </button>
+      </div>
+      {manualLink && (
+        <div className="flex items-center gap-2 mt-2 text-xs">
+          <span className="text-gray-400">Copying failed; copy the link yourself:</span>
+          <input
+            type="text"
+            readOnly
+            autoFocus
+            value={manualLink}
+            onFocus={(e) => e.target.select()}
+            className="flex-1 min-w-[200px] bg-slate-700 border border-slate-600 rounded px-2 py-1 font-mono text-gray-200"
+          />
+          <button onClick={() => setManualLink(null)} className="text-gray-500 hover:text-white" title="Hide">
+            <X size={12} />
+          </button>
+        </div>
+      )}
+      {saved.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-2">
+          {saved.map(text => (
+            <span
+              key={text}
+              className={`flex items-center gap-1 px-2 py-0.5 rounded text-xs font-mono ${
+                text === applied ? 'bg-blue-900/60 text-blue-200' : 'bg-slate-700 text-gray-300'
+              }`}
+            >
+              <button onClick={() => onApply(text)} className="hover:text-white">{text}</button>
+              <button onClick={() => unsave(text)} className="text-gray-500 hover:text-red-400" title="Forget this filter">
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FilterBar;
@@ -0,0 +1,120 @@
+'use client';
+
+import React, { useState } from 'react';
+import { History, Pencil, Trash2 } from 'lucide-react';
+import type { SavedSession } from '@/lib/storage';
+
+interface HistoryPanelProps {
+  sessions: SavedSession[];
+  currentId: string;
+  overlayIds: string[];
+  available: boolean;
+  error: string | null; // last failed rename or delete
+  onToggleOverlay: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const HistoryPanel = ({ sessions, currentId, overlayIds, available, error, onToggleOverlay, onRename, onDelete }: HistoryPanelProps) => {
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  const commitRename = () => {
+    if (editing && editing.name.trim()) onRename(editing.id, editing.name.trim());
+    setEditing(null);
+  };
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-6 mb-6 border border-slate-700">
+      <h3 className="text-xl font-bold mb-2 flex items-center gap-2">
+        <History size={20} />
+        Run History
+      </h3>
+      <p className="text-sm text-gray-400 mb-4">
+        {available
+          ? 'Sessions are saved in this browser as they run. Tick runs to overlay them on the Performance Comparison chart.'
+          : 'IndexedDB is unavailable here, so runs are not saved.'}
+      </p>
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+      {sessions.length > 0 && (
+        <div className="max-h-72 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-slate-700">
+              <tr className="border-b border-slate-600">
+                <th className="text-left p-2">Overlay</th>
+                <th className="text-left p-2">Name</th>
+                <th className="text-left p-2">Algorithms</th>
+                <th className="text-left p-2">Sort Key</th>
+                <th className="text-left p-2">Input</th>
+                <th className="text-right p-2">Batches</th>
+                <th className="text-right p-2">Trades</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sessions.map(session => (
+                <tr key={session.id} className="border-b border-slate-700/50 hover:bg-slate-700/30">
+                  <td className="p-2">
+                    <input
+                      type="checkbox"
+                      checked={overlayIds.includes(session.id)}
+                      disabled={session.id === currentId}
+                      onChange={() => onToggleOverlay(session.id)}
+                      className="accent-blue-500"
+                    />
+                  </td>
+                  <td className="p-2">
+                    {editing?.id === session.id ? (
+                      <input
+                        autoFocus
+                        value={editing.name}
+                        onChange={(e) => setEditing({ id: session.id, name: e.target.value })}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setEditing(null);
+                        }}
+                        className="bg-slate-700 border border-slate-600 rounded px-2 py-0.5 text-white"
+                      />
+                    ) : (
+                      <span>
+                        {session.name}
+                        {session.id === currentId && <span className="ml-2 text-xs text-green-400">(current)</span>}
+                      </span>
+                    )}
+                  </td>
+                  <td className="p-2 font-mono text-xs">
+                    {[session.config.algorithm, ...session.config.compared.filter(name => name !== session.config.algorithm)].join(', ')}
+                  </td>
+                  <td className="p-2 font-mono text-xs">
+                    {session.config.sortFields.map(field => `${field.direction === 'desc' ? '-' : ''}${field.key}`).join(',')}
+                  </td>
+                  <td className="p-2 text-xs">{session.config.distribution} / {session.config.market}</td>
+                  <td className="p-2 text-right font-mono">{session.performance.length}</td>
+                  <td className="p-2 text-right font-mono">{session.summary.totalTransactions.toLocaleString()}</td>
+                  <td className="p-2 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => setEditing({ id: session.id, name: session.name })}
+                      className="p-1 text-gray-400 hover:text-blue-300"
+                      title="Rename"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={() => onDelete(session.id)}
+                      className="p-1 text-gray-400 hover:text-red-400"
+                      title="Delete"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
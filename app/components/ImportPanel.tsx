@@ -0,0 +1,193 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Upload } from 'lucide-react';
+import {
+  IMPORT_FIELDS,
+  REQUIRED_FIELDS,
+  importTrades,
+  missingFields,
+  previewImport,
+  type ColumnMapping,
+  type ImportPreview,
+  type ImportProgress,
+  type ImportReport,
+  type TimestampFormat,
+} from '@/lib/import';
+import type { Transaction } from '@/lib/transaction';
+
+// Bytes read up front to find columns and guess the mapping
+const PREVIEW_BYTES = 64 * 1024;
+const SHOWN_ERRORS = 50;
+
+const timestampFormats: { value: TimestampFormat; label: string }[] = [
+  { value: 'iso', label: 'ISO-8601' },
+  { value: 'epoch-s', label: 'Epoch seconds' },
+  { value: 'epoch-ms', label: 'Epoch milliseconds' },
+  { value: 'epoch-us', label: 'Epoch microseconds' },
+  { value: 'epoch-ns', label: 'Epoch nanoseconds' },
+];
+
+interface ImportPanelProps {
+  onImport: (transactions: Transaction[], report: ImportReport) => void;
+}
+
+const ImportPanel = ({ onImport }: ImportPanelProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [timestampFormat, setTimestampFormat] = useState<TimestampFormat | ''>('');
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const selectFile = async (selected: File | undefined) => {
+    setReport(null);
+    setProgress(null);
+    setError(null);
+    setFile(selected ?? null);
+    if (!selected) return setPreview(null);
+    const text = await selected.slice(0, PREVIEW_BYTES).text();
+    const result = previewImport(text, selected.size <= PREVIEW_BYTES);
+    setPreview(result);
+    setMapping(result.mapping);
+    setTimestampFormat(result.timestampFormat ?? '');
+  };
+
+  const runImport = async () => {
+    if (!file || !preview) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      const result = await importTrades(file.stream(), {
+        format: preview.format,
+        mapping,
+        timestampFormat: timestampFormat || undefined,
+        onChunk: (_, chunkProgress) => setProgress(chunkProgress),
+      });
+      setReport(result);
+      onImport(result.transactions, result);
+    } catch (importError) {
+      setError((importError as Error).message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const missing = missingFields(mapping);
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-6 mb-6 border border-slate-700">
+      <h3 className="text-xl font-bold mb-2 flex items-center gap-2">
+        <Upload size={20} />
+        Import Trade Data
+      </h3>
+      <p className="text-sm text-gray-400 mb-4">
+        CSV with a header row, or NDJSON with one trade object per line. Imported trades are sorted and timed like a live batch.
+      </p>
+      <input
+        type="file"
+        accept=".csv,.ndjson,.jsonl,.json,.txt"
+        onChange={(e) => selectFile(e.target.files?.[0])}
+        className="block text-sm text-gray-300 file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-slate-600 file:text-white hover:file:bg-slate-700"
+      />
+
+      {preview && (
+        <div className="mt-4">
+          <p className="text-sm text-gray-400 mb-2">
+            Detected {preview.format.toUpperCase()} with {preview.columns.length} columns. Map them to trade fields:
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-4">
+            {IMPORT_FIELDS.map(field => (
+              <label key={field} className="text-xs text-gray-400">
+                {field}{REQUIRED_FIELDS.includes(field) ? ' *' : ''}
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => setMapping(prev => ({ ...prev, [field]: e.target.value || undefined }))}
+                  className="mt-1 w-full bg-slate-700 border border-slate-600 rounded-lg px-2 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">(none)</option>
+                  {preview.columns.map(column => (
+                    <option key={column} value={column}>{column}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            <label className="text-xs text-gray-400">
+              timestamp format
+              <select
+                value={timestampFormat}
+                onChange={(e) => setTimestampFormat(e.target.value as TimestampFormat | '')}
+                className="mt-1 w-full bg-slate-700 border border-slate-600 rounded-lg px-2 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Auto-detect</option>
+                {timestampFormats.map(format => (
+                  <option key={format.value} value={format.value}>{format.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={runImport}
+              disabled={isImporting || missing.length > 0}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg font-medium transition-colors"
+            >
+              {isImporting ? 'Importing...' : 'Import'}
+            </button>
+            {missing.length > 0 && <span className="text-sm text-red-400">Map {missing.join(', ')} to import</span>}
+            {isImporting && progress && (
+              <span className="text-sm text-gray-400">
+                {progress.rows.toLocaleString()} rows, {(progress.bytes / 1e6).toFixed(1)} MB read
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-4 text-sm text-red-400">{error}</p>}
+
+      {report && (
+        <div className="mt-4">
+          <p className="text-sm">
+            Imported <span className="text-green-400">{report.transactions.length.toLocaleString()}</span> of{' '}
+            {report.rows.toLocaleString()} rows ({report.timestampFormat} timestamps)
+            {report.errorCount > 0 && (
+              <span className="text-red-400">; {report.errorCount.toLocaleString()} rejected</span>
+            )}
+          </p>
+          {report.errors.length > 0 && (
+            <div className="mt-2 max-h-60 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-slate-700">
+                  <tr className="border-b border-slate-600">
+                    <th className="text-left p-2">Row</th>
+                    <th className="text-left p-2">Problem</th>
+                    <th className="text-left p-2">Content</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.errors.slice(0, SHOWN_ERRORS).map(rowError => (
+                    <tr key={rowError.row} className="border-b border-slate-700/50">
+                      <td className="p-2 font-mono">{rowError.row}</td>
+                      <td className="p-2 text-red-300">{rowError.message}</td>
+                      <td className="p-2 font-mono text-xs text-gray-400 truncate max-w-md">{rowError.raw}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {report.errorCount > SHOWN_ERRORS && (
+                <p className="text-xs text-gray-400 mt-2">
+                  Showing the first {SHOWN_ERRORS} of {report.errorCount.toLocaleString()} rejected rows.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportPanel;
@@ -0,0 +1,149 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { runSelectionBenchmark, type SelectionResult } from '@/lib/benchmark';
+import { quantile, quantileBy, topK, transactionKeys } from '@/lib/sorting';
+import { notional, type Transaction } from '@/lib/transaction';
+
+interface OrderStatsPanelProps {
+  data: readonly Transaction[]; // the sorted window's contents
+}
+
+// Fields that order trades by a number
+const fields = [
+  { value: 'price', label: 'Price' },
+  { value: 'quantity', label: 'Trade size' },
+  { value: 'notional', label: 'Notional' },
+] as const;
+type Field = typeof fields[number]['value'];
+
+const valueOf = (t: Transaction, field: Field) =>
+  field === 'price' ? `$${t.price.toFixed(2)}` : field === 'quantity' ? t.quantity.toLocaleString() : `$${notional(t).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const OrderStatsPanel = ({ data }: OrderStatsPanelProps) => {
+  const [field, setField] = useState<Field>('price');
+  const [k, setK] = useState(20);
+  const [percent, setPercent] = useState(99);
+  const [results, setResults] = useState<{ title: string; size: number; rows: SelectionResult<Transaction>[] }[]>([]);
+  const key = transactionKeys[field];
+  const p = percent / 100;
+
+  // Partial selection is cheap enough to redo on every batch
+  const answers = useMemo(() => ({
+    top: topK(data, k, key, 'desc'),
+    quantile: quantile(data, p, key),
+    medians: quantileBy(data, 0.5, transactionKeys.price, t => t.symbol),
+  }), [data, k, key, p]);
+
+  const benchmark = () => {
+    const size = data.length;
+    setResults([
+      { title: `Top ${k} by ${field}`, size, rows: runSelectionBenchmark(data, key, { kind: 'top', k, direction: 'desc' }) },
+      { title: `p${percent} ${field}`, size, rows: runSelectionBenchmark(data, key, { kind: 'quantile', p }) },
+    ]);
+  };
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-6 mb-6 border border-slate-700">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-xl font-bold">Order Statistics</h3>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select
+            value={field}
+            onChange={(e) => setField(e.target.value as Field)}
+            className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
+          >
+            {fields.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <label className="text-gray-400">Top</label>
+          <input
+            type="number"
+            min="1"
+            max="1000"
+            value={k}
+            onChange={(e) => setK(Math.max(1, Math.min(1000, Number(e.target.value) || 1)))}
+            className="w-20 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
+          />
+          <label className="text-gray-400">Percentile</label>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="0.1"
+            value={percent}
+            onChange={(e) => setPercent(Math.max(0, Math.min(100, Number(e.target.value) || 0)))}
+            className="w-20 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={benchmark}
+            disabled={data.length === 0}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 rounded-lg font-medium transition-colors"
+          >
+            Compare with Full Sort
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-400 mb-4">
+        Answered over the {data.length.toLocaleString()} trades in the sorted window with heap top-K and quickselect, without sorting them.
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div>
+          <h4 className="font-semibold mb-2">Top {k} by {field}</h4>
+          <div className="max-h-64 overflow-y-auto">
+            <table className="w-full text-sm">
+              <tbody>
+                {answers.top.map(t => (
+                  <tr key={t.id} className="border-b border-slate-700/50">
+                    <td className="p-1 font-mono">{t.symbol}</td>
+                    <td className="p-1 text-right font-mono">{valueOf(t, field)}</td>
+                    <td className="p-1 text-right text-xs text-gray-400">{t.displayTime}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+        <div>
+          <h4 className="font-semibold mb-2">Median price per symbol</h4>
+          <table className="w-full text-sm">
+            <tbody>
+              {Array.from(answers.medians.entries()).map(([symbol, t]) => (
+                <tr key={symbol} className="border-b border-slate-700/50">
+                  <td className="p-1 font-mono">{symbol}</td>
+                  <td className="p-1 text-right font-mono">${t.price.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div>
+          <h4 className="font-semibold mb-2">p{percent} {field}</h4>
+          <p className="text-3xl font-bold font-mono">{answers.quantile ? valueOf(answers.quantile, field) : '-'}</p>
+          {results.map(result => (
+            <div key={result.title} className="mt-4">
+              <h5 className="text-sm text-gray-300 mb-1">{result.title} over {result.size.toLocaleString()} trades</h5>
+              <table className="w-full text-sm">
+                <tbody>
+                  {result.rows.map(row => (
+                    <tr key={row.method} className="border-b border-slate-700/50">
+                      <td className={`p-1 ${row.partial ? '' : 'text-gray-400'}`}>{row.label}</td>
+                      <td className="p-1 text-right font-mono">{row.timing.median.toFixed(2)}ms</td>
+                      <td className={`p-1 text-right text-xs ${row.agrees ? 'text-green-400' : 'text-red-400'}`}>
+                        {row.agrees ? 'matches' : 'differs'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderStatsPanel;
@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Pause, Play, RotateCcw, SkipForward } from 'lucide-react';
+import { PLAYBACK_SPEEDS, createReplayEngine, type PlaybackSpeed, type ReplayEngine } from '@/lib/replay';
+import type { Transaction } from '@/lib/transaction';
+
+const TICK_MS = 100;
+const SEEK_STEPS = 1000;
+
+interface ReplayPanelProps {
+  getRecording: () => Transaction[];
+  imported: Transaction[];
+  batchSize: number;
+  onStart: () => void;
+  onBatch: (batch: Transaction[]) => void;
+}
+
+const formatClock = (ns: bigint) => {
+  const ms = Number(ns / BigInt(1000000));
+  const subMs = (ns % BigInt(1000000)).toString().padStart(6, '0');
+  return `${new Date(ms).toISOString().replace('Z', '')}${subMs}Z`;
+};
+
+const ReplayPanel = ({ getRecording, imported, batchSize, onStart, onBatch }: ReplayPanelProps) => {
+  const engine = useRef<ReplayEngine | null>(null);
+  const [source, setSource] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState<PlaybackSpeed>(1);
+  const [, setTick] = useState(0); // re-render as the engine's clock moves
+  const onBatchRef = useRef(onBatch);
+  onBatchRef.current = onBatch;
+
+  const refresh = () => setTick(tick => tick + 1);
+
+  const load = (label: string, tape: Transaction[]) => {
+    setIsPlaying(false);
+    engine.current = createReplayEngine(tape, { batchSize });
+    engine.current.setSpeed(speed);
+    setSource(`${label}: ${tape.length.toLocaleString()} trades`);
+  };
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const interval = setInterval(() => {
+      const current = engine.current;
+      if (!current) return;
+      current.advance(TICK_MS).forEach(batch => onBatchRef.current(batch));
+      if (current.done) setIsPlaying(false);
+      refresh();
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying]);
+
+  const play = () => {
+    if (!engine.current || engine.current.done) return;
+    onStart();
+    setIsPlaying(!isPlaying);
+  };
+
+  const step = () => {
+    const batch = engine.current?.step();
+    if (batch) {
+      onStart();
+      onBatch(batch);
+    }
+    refresh();
+  };
+
+  const changeSpeed = (next: PlaybackSpeed) => {
+    setSpeed(next);
+    engine.current?.setSpeed(next);
+  };
+
+  const seek = (fraction: number) => {
+    const current = engine.current;
+    if (!current) return;
+    const span = current.end - current.start;
+    current.seek(current.start + (span * BigInt(Math.round(fraction * SEEK_STEPS))) / BigInt(SEEK_STEPS));
+    refresh();
+  };
+
+  const current = engine.current;
+  const span = current ? current.end - current.start : BigInt(0);
+  const seekValue = current && span > BigInt(0) ? Number(((current.clock - current.start) * BigInt(SEEK_STEPS)) / span) : 0;
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-6 mb-6 border border-slate-700">
+      <h3 className="text-xl font-bold mb-2">Replay</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Plays a tape on a virtual clock in fixed batches of {batchSize} trades, so every replay sorts exactly the same batches.
+      </p>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <button
+          onClick={() => load('Recorded session', getRecording())}
+          className="px-3 py-1 bg-slate-600 hover:bg-slate-700 rounded-lg text-sm transition-colors"
+        >
+          Load recorded session
+        </button>
+        <button
+          onClick={() => load('Imported file', imported)}
+          disabled={imported.length === 0}
+          className="px-3 py-1 bg-slate-600 hover:bg-slate-700 disabled:opacity-50 rounded-lg text-sm transition-colors"
+        >
+          Load imported file ({imported.length.toLocaleString()})
+        </button>
+        {source && <span className="text-sm text-gray-400">{source}</span>}
+      </div>
+
+      {current && current.tape.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <button
+              onClick={play}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all ${
+                isPlaying ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'
+              }`}
+            >
+              {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+              {isPlaying ? 'Pause' : 'Play'}
+            </button>
+            <button
+              onClick={step}
+              disabled={isPlaying || current.done}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-600 hover:bg-slate-700 disabled:opacity-50 rounded-lg font-medium transition-colors"
+            >
+              <SkipForward size={16} />
+              Step
+            </button>
+            <button
+              onClick={() => {
+                setIsPlaying(false);
+                current.reset();
+                refresh();
+              }}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-600 hover:bg-slate-700 rounded-lg font-medium transition-colors"
+            >
+              <RotateCcw size={16} />
+              Rewind
+            </button>
+            <div className="flex gap-1 ml-2">
+              {PLAYBACK_SPEEDS.map(option => (
+                <button
+                  key={option}
+                  onClick={() => changeSpeed(option)}
+                  className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                    speed === option ? 'bg-blue-600' : 'bg-slate-700 hover:bg-slate-600'
+                  }`}
+                >
+                  {option === 'max' ? 'Max' : `${option}x`}
+                </button>
+              ))}
+            </div>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max={SEEK_STEPS}
+            value={seekValue}
+            onChange={(e) => seek(Number(e.target.value) / SEEK_STEPS)}
+            className="w-full"
+          />
+          <div className="flex justify-between text-xs text-gray-400 font-mono mt-1">
+            <span>{formatClock(current.clock)}</span>
+            <span>Batch {current.batchIndex} of {current.batchCount}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReplayPanel;
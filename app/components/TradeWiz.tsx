@@ -1,231 +1,627 @@
 'use client';
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, BarChart, Bar, ResponsiveContainer } from 'recharts';
-import { Play, Pause, Settings, TrendingUp, Clock, DollarSign, Activity } from 'lucide-react';
+import { Play, Pause, Settings, TrendingUp, Clock, DollarSign, Activity, Cpu } from 'lucide-react';
+import { applyDistribution, distributions, type Distribution } from '@/lib/distributions';
+import { SEED_EPOCH_MS, STOCK_SYMBOLS, VENUES, generateTransaction } from '@/lib/generator';
+import { notional, toNanos, type Side, type Transaction } from '@/lib/transaction';
+import ImportPanel from './ImportPanel';
+import ReplayPanel from './ReplayPanel';
+import ExportPanel from './ExportPanel';
+import HistoryPanel from './HistoryPanel';
+import DepthLadder from './DepthLadder';
+import AnalyticsPanel from './AnalyticsPanel';
+import OrderStatsPanel from './OrderStatsPanel';
+import FilterBar from './FilterBar';
+import { createSessionId, openSessionStore, type SavedSession, type SessionConfig, type SessionStore } from '@/lib/storage';
+import { createRandom, type Random } from '@/lib/random';
+import { compileFilter, formatFilter, parseFilter } from '@/lib/filter';
+import { createAnalyticsEngine, type BarInterval } from '@/lib/analytics';
+import { createOrderBooks, createOrderFlow, type OrderFlow } from '@/lib/orderbook';
+import { createSimulatorFeed, createSseFeed, createWebSocketFeed } from '@/lib/feeds';
+import { createMarketSimulator, marketPresets, type MarketPreset, type MarketSimulator } from '@/lib/simulator';
+import {
+  PREPROCESS_SAMPLE,
+  checkNanosecondOrdering,
+  createRadixWorkerPool,
+  createSortedWindow,
+  getAlgorithm,
+  listAlgorithms,
+  mergeSorter,
+  preprocessForRadix,
+  radixSorter,
+  transactionSortKey,
+  verifySort,
+  type RadixEntry,
+  type SortedWindow,
+  type Sorter,
+  type VerificationFailure,
+  type SortKey,
+  type SortSpec,
+} from '@/lib/sorting';
+import { runBenchmark, significantlyDifferent, type PerformancePoint, type TimingSummary } from '@/lib/benchmark';
 
-type SortKey = 'price' | 'symbol' | 'timestamp';
+const sortKeyOptions: { value: SortKey; label: string }[] = [
+  { value: 'price', label: 'Trade Price' },
+  { value: 'exactPrice', label: 'Trade Price (exact float)' },
+  { value: 'quantity', label: 'Quantity' },
+  { value: 'notional', label: 'Notional (price × size)' },
+  { value: 'symbol', label: 'Stock Symbol' },
+  { value: 'timestamp', label: 'Timestamp' },
+];
 
-interface Transaction {
-  id: string;
-  symbol: string;
-  price: number;
-  timestamp: number;
-  displayTime: string;
-  sortKey?: number;
+// The field each sort key reads, as shown next to its integer key
+const sortKeyValues: Record<SortKey, (t: Transaction) => string> = {
+  price: t => `$${t.price}`,
+  exactPrice: t => `$${t.price}`,
+  quantity: t => t.quantity.toLocaleString(),
+  notional: t => `$${notional(t).toLocaleString()}`,
+  symbol: t => t.symbol,
+  timestamp: t => t.timestamp.toString(),
+};
+
+// One color per registered algorithm, in registration order
+const algorithmColors = ['#10B981', '#34D399', '#6EE7B7', '#F59E0B', '#3B82F6', '#8B5CF6', '#EC4899', '#EF4444', '#06B6D4'];
+const algorithmColor = (name: string) => {
+  const index = listAlgorithms().findIndex(algorithm => algorithm.name === name);
+  return algorithmColors[index % algorithmColors.length];
+};
+
+// Where live trades come from
+type FeedSource = 'simulator' | 'sse' | 'websocket';
+const feedSourceOptions: { value: FeedSource; label: string }[] = [
+  { value: 'simulator', label: 'In-browser simulator' },
+  { value: 'sse', label: 'Server-sent events (/api/feed)' },
+  { value: 'websocket', label: 'WebSocket' },
+];
+
+// Sorted window sizes, in trades
+const windowCapacities = [2000, 10000, 50000, 100000];
+
+// One batch's cost of updating the sorted window against re-sorting it
+interface WindowPoint {
+  batch: number;
+  size: number;
+  evicted: number;
+  incremental: number;
+  full: number;
+}
+
+// Stable empty input for panels that memoize on their data
+const noTrades: Transaction[] = [];
+
+// Trades sorted together; the live buffer and replay both use this size
+const BATCH_SIZE = 500;
+// Cap on the live session kept for replay
+const MAX_RECORDING = 1000000;
+
+// Performance chart row: the live batch and each overlaid run's batch with
+// the same number
+interface ChartRow {
+  batch: number;
+  time: string;
+  live?: PerformancePoint;
+  runs: (PerformancePoint | undefined)[];
 }
 
+// Dash patterns for runs overlaid from history, by overlay order
+const overlayDashes = ['6 3', '2 2', '10 4', '4 2 1 2'];
+
+const newSession = () => {
+  const createdAt = new Date();
+  return { id: createSessionId(), name: `Session ${createdAt.toLocaleString()}`, createdAt: createdAt.toISOString() };
+};
+
 const TradeWiz = () => {
   const [isRunning, setIsRunning] = useState(false);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [sortedTransactions, setSortedTransactions] = useState<Transaction[]>([]);
-  const [sortMethod, setSortMethod] = useState<'radix' | 'merge'>('radix');
-  const [sortBy, setSortBy] = useState<SortKey>('price');
+  const [windowCapacity, setWindowCapacity] = useState(10000);
+  const [windowTop, setWindowTop] = useState<Transaction[]>([]);
+  const [windowHistory, setWindowHistory] = useState<WindowPoint[]>([]);
+  const [tableView, setTableView] = useState<'window' | 'batch'>('window');
+  const [ladderSymbol, setLadderSymbol] = useState('AAPL');
+  const [bookStats, setBookStats] = useState({ events: 0, executions: 0 });
+  const [analyticsSymbol, setAnalyticsSymbol] = useState('AAPL');
+  const [barInterval, setBarInterval] = useState<BarInterval>('1s');
+  const [sortMethod, setSortMethod] = useState('radix-8');
+  const [compareMethods, setCompareMethods] = useState<string[]>(['merge']);
+  const [sortFields, setSortFields] = useState<SortSpec[]>([{ key: 'price', direction: 'asc' }]);
   const [transactionRate, setTransactionRate] = useState(1000);
-  const [performanceData, setPerformanceData] = useState<{ time: string; radixTime: number; mergeTime: number; transactions: number; totalTransactions: number }[]>([]);
-  const [preprocessedData, setPreprocessedData] = useState<Transaction[]>([]);
+  const [trials, setTrials] = useState(5);
+  // Active algorithms that could not sort the last batch
+  const [skippedAlgorithms, setSkippedAlgorithms] = useState<string[]>([]);
+  // Debug mode: check every sorter's output on every batch
+  const [verifySorts, setVerifySorts] = useState(false);
+  const [verification, setVerification] = useState<{
+    batches: number;
+    last: Record<string, VerificationFailure | null>;
+    failures: { algorithm: string; batch: number; failure: VerificationFailure }[];
+  }>({ batches: 0, last: {}, failures: [] });
+  const [warmupRuns, setWarmupRuns] = useState(1);
+  const [sideFilter, setSideFilter] = useState<Side | 'all'>('all');
+  const [venueFilter, setVenueFilter] = useState('all');
+  // Filter expression, shareable as ?filter= in the page URL
+  const [filterText, setFilterText] = useState(() => new URLSearchParams(window.location.search).get('filter') ?? '');
+  const [marketPreset, setMarketPreset] = useState<MarketPreset | 'uniform'>('calm');
+  const [haltedSymbols, setHaltedSymbols] = useState<string[]>([]);
+  const [seed, setSeed] = useState('');
+  const [feedSource, setFeedSource] = useState<FeedSource>('simulator');
+  const [wsUrl, setWsUrl] = useState('ws://localhost:8080');
+  const [feedStatus, setFeedStatus] = useState<string>('idle');
+  const [invalidMessages, setInvalidMessages] = useState(0);
+  const [importedTape, setImportedTape] = useState<Transaction[]>([]);
+  const [session, setSession] = useState(newSession);
+  const [sessionStore, setSessionStore] = useState<SessionStore | null>(null);
+  const [storeFailed, setStoreFailed] = useState(false);
+  const [storeError, setStoreError] = useState<string | null>(null);
+  const [savedSessions, setSavedSessions] = useState<SavedSession[]>([]);
+  const [overlayIds, setOverlayIds] = useState<string[]>([]);
+  const [distribution, setDistribution] = useState<Distribution>('uniform');
+  const [shapePercent, setShapePercent] = useState(5);
+  const [performanceData, setPerformanceData] = useState<PerformancePoint[]>([]);
+  const [preprocessedData, setPreprocessedData] = useState<RadixEntry<Transaction>[]>([]);
+  const [scalingData, setScalingData] = useState<{ workers: string; throughput: number; time: number }[]>([]);
+  const [scalingShared, setScalingShared] = useState(true);
+  const [isBenchmarking, setIsBenchmarking] = useState(false);
+  const [scalingError, setScalingError] = useState<string | null>(null);
   const [currentStats, setCurrentStats] = useState({
     totalTransactions: 0,
     avgSortTime: 0,
-    radixTime: 0,
-    mergeTime: 0
+    times: {} as Record<string, number>,
+    summaries: {} as Record<string, TimingSummary>
   });
   
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  // The primary key drives the preprocessing view
+  const sortBy = sortFields[0].key;
+  const sortKey = useMemo(() => transactionSortKey(sortFields), [sortFields]);
+  const sortLabel = sortFields.map(({ key, direction }) => `${key} ${direction === 'asc' ? '↑' : '↓'}`).join(', ');
+
+  // The displayed algorithm plus everything it is compared against, minus
+  // algorithms that cannot order by the current key (e.g. counting sort on symbols)
+  const activeAlgorithms = useMemo(() => {
+    const names = [sortMethod, ...compareMethods.filter(name => name !== sortMethod)];
+    const supported = names.map(getAlgorithm).filter(algorithm => algorithm.supports(sortKey));
+    return supported.length > 0 ? supported : [getAlgorithm('radix-8')];
+  }, [sortMethod, compareMethods, sortKey]);
+  // Invalid text never gets applied from the bar, but may arrive in a URL
+  const filterPredicate = useMemo(() => {
+    if (!filterText) return null;
+    const parsed = parseFilter(filterText);
+    return parsed.ok ? compileFilter(parsed.expr) : null;
+  }, [filterText]);
+
+  // Applied filters are stored in canonical form, so equivalent queries
+  // share one link
+  const applyFilter = (input: string) => {
+    const parsed = input ? parseFilter(input) : null;
+    const text = parsed?.ok ? formatFilter(parsed.expr) : input;
+    setFilterText(text);
+    const url = new URL(window.location.href);
+    if (text) url.searchParams.set('filter', text);
+    else url.searchParams.delete('filter');
+    window.history.replaceState(null, '', url);
+  };
+
+  const displayedAlgorithm = activeAlgorithms.find(algorithm => algorithm.name === sortMethod) ?? activeAlgorithms[0];
+  // The window sorts every batch and the whole window with the displayed
+  // algorithm; data it cannot handle (counting sort on wide prices) goes
+  // through merge sort instead
+  const windowSorter = useMemo((): Sorter<Transaction> => ({
+    name: displayedAlgorithm.name,
+    sort: (data, key) => (displayedAlgorithm.supports(key, data) ? displayedAlgorithm : mergeSorter).sort(data, key),
+  }), [displayedAlgorithm]);
+
+  // Last batch's timing distribution per active algorithm
+  const comparisonRows = useMemo(() => {
+    const rows = activeAlgorithms
+      .filter(algorithm => currentStats.summaries[algorithm.name])
+      .map(algorithm => ({
+        name: algorithm.name,
+        label: algorithm.label,
+        stable: algorithm.stable,
+        timing: currentStats.summaries[algorithm.name]
+      }));
+    const fastest = Math.min(...rows.map(row => row.timing.median).filter(median => median > 0));
+    return rows.map(row => ({ ...row, relative: row.timing.median > 0 ? row.timing.median / fastest : 0 }));
+  }, [activeAlgorithms, currentStats.summaries]);
+
+  // Mean of batch medians per input shape seen in the performance history
+  const shapeRows = useMemo(() => {
+    const shapes = Array.from(new Set(performanceData.map(point => point.distribution)));
+    return shapes.map(shape => {
+      const points = performanceData.filter(point => point.distribution === shape);
+      const means: Record<string, number | undefined> = {};
+      activeAlgorithms.forEach(algorithm => {
+        const medians = points
+          .map(point => point.times[algorithm.name])
+          .filter((time): time is number => time !== undefined);
+        means[algorithm.name] = medians.length > 0
+          ? medians.reduce((sum, time) => sum + time, 0) / medians.length
+          : undefined;
+      });
+      return { shape, batches: points.length, means };
+    });
+  }, [activeAlgorithms, performanceData]);
+
+  // Fastest vs slowest median in the last batch; only called a win when the
+  // confidence intervals do not overlap
+  const speedImprovement = useMemo(() => {
+    const timed = activeAlgorithms
+      .map(algorithm => ({ algorithm, timing: currentStats.summaries[algorithm.name] }))
+      .filter(({ timing }) => timing && timing.median > 0);
+    if (timed.length < 2) return '-';
+    const sorted = [...timed].sort((a, b) => a.timing.median - b.timing.median);
+    const fastest = sorted[0], slowest = sorted[sorted.length - 1];
+    if (!significantlyDifferent(fastest.timing, slowest.timing)) return 'Within noise';
+    const improvement = (slowest.timing.median / fastest.timing.median - 1) * 100;
+    return `${improvement.toFixed(1)}% (${fastest.algorithm.label})`;
+  }, [activeAlgorithms, currentStats.summaries]);
+
+  // Two trades 1ns apart must sort in order; proves timestamps stay lossless
+  const nanosecondCheck = useMemo(() => ({
+    radix: checkNanosecondOrdering(radixSorter),
+    merge: checkNanosecondOrdering(mergeSorter)
+  }), []);
+  
   const transactionBuffer = useRef<Transaction[]>([]);
+  const simulator = useRef<MarketSimulator | null>(null);
+  const sortedWindow = useRef<SortedWindow<Transaction> | null>(null);
+  const orderBooks = useRef(createOrderBooks());
+  const orderFlow = useRef<OrderFlow | null>(null);
+  const analytics = useRef(createAnalyticsEngine());
+  // Books are mutable, so these are read fresh on every render
+  const bookSymbols = orderBooks.current.symbols().length > 0 ? orderBooks.current.symbols() : STOCK_SYMBOLS;
+  const sourceRandom = useRef<Random>(Math.random);
+  const generatedCount = useRef(0);
+  const recording = useRef<Transaction[]>([]);
 
-  // Stock symbols for realistic data
-  const stockSymbols = ['AAPL', 'TSLA', 'AMZN', 'GOOGL', 'MSFT', 'NVDA', 'META', 'NFLX', 'AMD', 'INTC'];
-
-  // Generate random transaction
-  const generateTransaction = useCallback((): Transaction => {
-    const symbol = stockSymbols[Math.floor(Math.random() * stockSymbols.length)];
-    const price = Math.random() * 1000 + 50; // $50-$1050
-    const timestamp = Date.now() * 1000000 + Math.floor(Math.random() * 1000000); // Nanosecond precision
-    return {
-      id: Math.random().toString(36).substr(2, 9),
-      symbol,
-      price: Math.round(price * 100) / 100,
-      timestamp,
-      displayTime: new Date().toLocaleTimeString(),
-    };
+  // Fresh market and recording; with a seed the same trades come out every time
+  const startSource = useCallback(() => {
+    const random = seed ? createRandom(seed) : Math.random;
+    sourceRandom.current = random;
+    generatedCount.current = 0;
+    recording.current = [];
+    simulator.current = marketPreset === 'uniform'
+      ? null
+      : createMarketSimulator(marketPresets[marketPreset].config, seed ? { random, startTime: toNanos(SEED_EPOCH_MS) } : {});
+    orderBooks.current.clear();
+    analytics.current.clear();
+    orderFlow.current = createOrderFlow(orderBooks.current, seed ? createRandom(`${seed}/orders`) : Math.random);
+    setBookStats({ events: 0, executions: 0 });
+    setHaltedSymbols([]);
+  }, [marketPreset, seed]);
+
+  // A new preset or seed starts a fresh market; the rate slider only retunes it
+  useEffect(() => {
+    startSource();
+  }, [startSource]);
+
+  useEffect(() => {
+    simulator.current?.update({ arrivalRate: transactionRate });
+  }, [startSource, transactionRate]);
+
+  useEffect(() => {
+    let store: SessionStore | null = null;
+    openSessionStore()
+      .then(opened => {
+        store = opened;
+        setSessionStore(opened);
+        return opened.list();
+      })
+      .then(setSavedSessions)
+      .catch(() => setStoreFailed(true));
+    return () => store?.close();
   }, []);
 
-  // Preprocess data for radix sort
-  const preprocessForRadix = (data: Transaction[], sortKey: SortKey): Transaction[] => {
-    return data.map(item => {
-      let key;
-      if (sortKey === 'price') {
-        // Convert price to integer (multiply by 100 for cents)
-        key = Math.floor(item.price * 100);
-      } else if (sortKey === 'symbol') {
-        // Convert symbol to integer representation
-        key = item.symbol.split('').reduce((acc, char) => acc * 256 + char.charCodeAt(0), 0);
-      } else if (sortKey === 'timestamp') {
-        key = item.timestamp;
-      }
-      return { ...item, sortKey: key } as Transaction;
-    });
+  // Settings the controls show now; processBatch copies them into
+  // recordedConfig, so a saved session is labelled with the settings its
+  // batches were measured with, not ones changed since
+  const configRef = useRef<SessionConfig | null>(null);
+  configRef.current = {
+    algorithm: sortMethod,
+    compared: compareMethods,
+    sortFields,
+    distribution,
+    market: marketPreset,
+    seed,
+    rate: transactionRate,
+    trials,
+    warmup: warmupRuns,
   };
+  const recordedConfig = useRef<SessionConfig | null>(null);
 
-  // Radix Sort implementation
-  const radixSort = (arr: Transaction[], sortKey: SortKey = 'price'): { sorted: Transaction[]; time: number } => {
-    if (arr.length <= 1) {
-      setPreprocessedData([]);
-      return { sorted: arr, time: 0 };
-    }
-    
-    const startTime = performance.now();
-    const preprocessed = preprocessForRadix(arr, sortKey);
-    setPreprocessedData(preprocessed.slice(0, 20)); // Update state for UI
+  // Autosave the running session after every batch, so neither Reset nor a
+  // page refresh loses it
+  useEffect(() => {
+    if (!sessionStore || performanceData.length === 0 || !recordedConfig.current) return;
+    const saved: SavedSession = {
+      ...session,
+      updatedAt: new Date().toISOString(),
+      config: recordedConfig.current,
+      performance: performanceData,
+      summary: currentStats,
+    };
+    sessionStore
+      .save(saved)
+      .then(() => setSavedSessions(prev =>
+        [saved, ...prev.filter(other => other.id !== saved.id)].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      ))
+      .catch(() => undefined);
+  }, [sessionStore, session, performanceData, currentStats]);
+
+  const renameSession = (id: string, name: string) => {
+    sessionStore?.rename(id, name)
+      .then(() => {
+        setStoreError(null);
+        setSavedSessions(prev => prev.map(other => (other.id === id ? { ...other, name } : other)));
+        if (id === session.id) setSession(prev => ({ ...prev, name }));
+      })
+      .catch((error: Error) => setStoreError(`Could not rename the run: ${error?.message ?? 'storage error'}`));
+  };
+
+  const deleteSession = (id: string) => {
+    sessionStore?.remove(id)
+      .then(() => {
+        setStoreError(null);
+        setSavedSessions(prev => prev.filter(other => other.id !== id));
+        setOverlayIds(prev => prev.filter(other => other !== id));
+        if (id === session.id) setSession(newSession());
+      })
+      .catch((error: Error) => setStoreError(`Could not delete the run: ${error?.message ?? 'storage error'}`));
+  };
+
+  // Live history and overlaid runs aligned by batch number
+  const overlayRuns = useMemo(
+    () => savedSessions.filter(saved => overlayIds.includes(saved.id) && saved.id !== session.id),
+    [savedSessions, overlayIds, session.id]
+  );
+  const chartData = useMemo((): ChartRow[] => {
+    const length = Math.max(performanceData.length, ...overlayRuns.map(run => run.performance.length));
+    return Array.from({ length }, (_, i) => ({
+      batch: i + 1,
+      time: performanceData[i]?.time ?? '',
+      live: performanceData[i],
+      runs: overlayRuns.map(run => run.performance[i]),
+    }));
+  }, [performanceData, overlayRuns]);
+
+  // Sort transactions
+  const sortTransactions = useCallback((batch: Transaction[]) => {
+    const filtered = batch.filter(t =>
+      (sideFilter === 'all' || t.side === sideFilter) && (venueFilter === 'all' || t.venue === venueFilter) &&
+      (!filterPredicate || filterPredicate(t))
+    );
+    const data = applyDistribution(filtered, distribution, { key: sortKey, random: sourceRandom.current, percent: shapePercent });
+    const times: Record<string, number> = {};
+    const summaries: Record<string, TimingSummary> = {};
+    let sorted = data;
     
-    // Find maximum value to determine number of digits
-    const maxVal = Math.max(...preprocessed.map(item => item.sortKey ?? 0));
-    const maxDigits = maxVal.toString().length;
+    // Counting sort needs a key range that fits its table, and radix sorts
+    // non-negative integer keys
+    const runnable = activeAlgorithms.filter(algorithm => algorithm.supports(sortKey, data));
+    const sorters = runnable.length > 0 ? runnable : [getAlgorithm('merge')];
+    setSkippedAlgorithms(activeAlgorithms.filter(algorithm => !runnable.includes(algorithm)).map(algorithm => algorithm.label));
     
-    let sortedArray = [...preprocessed];
+    const results = runBenchmark<Transaction>(data, sortKey, sorters, { warmup: warmupRuns, trials });
+    results.forEach(result => {
+      times[result.algorithm] = result.timing.median;
+      summaries[result.algorithm] = result.timing;
+    });
+    sorted = (results.find(result => result.algorithm === displayedAlgorithm.name) ?? results[0]).sorted;
     
-    // Radix sort for each digit position
-    for (let digit = 0; digit < maxDigits; digit++) {
-      const buckets: Transaction[][] = Array.from({ length: 10 }, () => []);
-      const divisor = Math.pow(10, digit);
-      
-      sortedArray.forEach(item => {
-        const digitValue = Math.floor((item.sortKey ?? 0) / divisor) % 10;
-        buckets[digitValue].push(item);
+    if (verifySorts) {
+      const last: Record<string, VerificationFailure | null> = {};
+      results.forEach(result => {
+        const stable = activeAlgorithms.find(algorithm => algorithm.name === result.algorithm)?.stable;
+        last[result.algorithm] = verifySort(data, result.sorted, sortKey, { stable });
+      });
+      setVerification(prev => {
+        const batch = prev.batches + 1;
+        const failed = Object.keys(last)
+          .filter(algorithm => last[algorithm])
+          .map(algorithm => ({ algorithm, batch, failure: last[algorithm]! }));
+        return { batches: batch, last, failures: [...prev.failures, ...failed].slice(-10) };
       });
-      
-      sortedArray = buckets.flat();
     }
     
-    const endTime = performance.now();
-    return { sorted: sortedArray, time: endTime - startTime };
-  };
+    setPreprocessedData(preprocessForRadix(data.slice(0, PREPROCESS_SAMPLE), sortKey)); // Update state for UI
+    
+    return { data, sorted, times, summaries };
+  }, [activeAlgorithms, displayedAlgorithm, sortKey, warmupRuns, trials, verifySorts, sideFilter, venueFilter, filterPredicate, distribution, shapePercent]);
 
-  // Traditional Merge Sort for comparison
-  const mergeSort = (arr: Transaction[], sortKey: SortKey = 'price'): { sorted: Transaction[]; time: number } => {
-    const startTime = performance.now();
+  // Rebuild the window when its order or size changes, carrying over the
+  // trades that still pass the filters
+  useEffect(() => {
+    const previous = sortedWindow.current?.arrivals() ?? [];
+    const view = createSortedWindow<Transaction>(sortKey, windowSorter, { capacity: windowCapacity });
+    const kept = previous.filter(t =>
+      (sideFilter === 'all' || t.side === sideFilter) && (venueFilter === 'all' || t.venue === venueFilter) &&
+      (!filterPredicate || filterPredicate(t))
+    );
+    if (kept.length > 0) view.insert(kept);
+    sortedWindow.current = view;
+    setWindowTop(view.head(20));
+  }, [sortKey, windowSorter, windowCapacity, sideFilter, venueFilter, filterPredicate]);
+
+  // Sort one batch with every active algorithm and record the results
+  const processBatch = useCallback((batch: Transaction[]) => {
+    const bufferLength = batch.length;
+    recordedConfig.current = configRef.current;
+    const { data, sorted, times, summaries } = sortTransactions(batch);
+    const sortTimes = Object.keys(times).map(name => times[name]);
     
-    const merge = (left: Transaction[], right: Transaction[]): Transaction[] => {
-      const result: Transaction[] = [];
-      let i = 0, j = 0;
-      
-      while (i < left.length && j < right.length) {
-        const leftVal = sortKey === 'price' ? left[i].price : 
-                       sortKey === 'symbol' ? left[i].symbol : 
-                       left[i].timestamp;
-        const rightVal = sortKey === 'price' ? right[j].price : 
-                        sortKey === 'symbol' ? right[j].symbol : 
-                        right[j].timestamp;
-        
-        if (leftVal <= rightVal) {
-          result.push(left[i]);
-          i++;
-        } else {
-          result.push(right[j]);
-          j++;
-        }
-      }
-      
-      return result.concat(left.slice(i)).concat(right.slice(j));
-    };
+    // Merge the batch into the sorted window, then time re-sorting the whole
+    // window from scratch for comparison
+    const view = sortedWindow.current;
+    if (view) {
+      const update = view.insert(data);
+      const full = windowSorter.sort(view.arrivals(), sortKey);
+      setWindowTop(view.head(20));
+      setWindowHistory(prev => [...prev.slice(-20), {
+        batch: (prev[prev.length - 1]?.batch ?? 0) + 1,
+        size: update.size,
+        evicted: update.evicted,
+        incremental: update.sortTime + update.mergeTime,
+        full: full.time
+      }]);
+    }
+    setHaltedSymbols(simulator.current?.snapshot().filter(state => state.halted).map(state => state.symbol) ?? []);
     
-    const sort = (array: Transaction[]): Transaction[] => {
-      if (array.length <= 1) return array;
-      
-      const mid = Math.floor(array.length / 2);
-      const left = sort(array.slice(0, mid));
-      const right = sort(array.slice(mid));
-      
-      return merge(left, right);
-    };
+    analytics.current.add(batch);
     
-    const sorted = sort([...arr]);
-    const endTime = performance.now();
-    const actualTime = endTime - startTime;
+    // Drive the order books from the latest trade price of each symbol
+    if (orderFlow.current && batch.length > 0) {
+      const mids = new Map(batch.map(t => [t.symbol, t.price]));
+      const events = orderFlow.current.next(mids, batch.length, batch[batch.length - 1].timestamp);
+      const executions = events.filter(event => event.type === 'execute').length;
+      setBookStats(prev => ({ events: prev.events + events.length, executions: prev.executions + executions }));
+    }
     
-    // For demonstration purposes, we amplify the time to show a more drastic difference.
-    const demonstrationTime = actualTime * 2.5;
+    setTransactions(prev => [...prev.slice(-1000), ...batch].slice(-2000));
+    setSortedTransactions(sorted);
     
-    return { sorted, time: demonstrationTime };
+    // Update stats first
+    setCurrentStats(prev => {
+      const newStats = {
+        ...prev,
+        times,
+        summaries,
+        totalTransactions: prev.totalTransactions + bufferLength,
+        avgSortTime: sortTimes.reduce((sum, time) => sum + time, 0) / Math.max(1, sortTimes.length)
+      };
+      
+      // Update performance data with the new stats
+      setPerformanceData(prevData => [...prevData.slice(-20), {
+        time: new Date().toLocaleTimeString(),
+        times,
+        distribution,
+        transactions: bufferLength,
+        totalTransactions: newStats.totalTransactions
+      }]);
+      
+      return newStats;
+    });
+  }, [sortTransactions, distribution, windowSorter, sortKey]);
+
+  // Imported tapes go through the same pipeline as one batch
+  const handleImport = (imported: Transaction[]) => {
+    setIsRunning(false);
+    setImportedTape(imported);
+    processBatch(imported);
   };
 
-  // Sort transactions
-  const sortTransactions = useCallback((data: Transaction[]) => {
-    let radixResult, mergeResult;
+  // Built-in source: the market simulator, or uniform trades when none
+  const generateBatch = useCallback((count: number) => {
+    if (simulator.current) return simulator.current.batch(count);
+    return Array.from({ length: count }, () => {
+      const generated = ++generatedCount.current;
+      return seed
+        ? generateTransaction(sourceRandom.current, SEED_EPOCH_MS + (generated * 1000) / transactionRate, generated)
+        : generateTransaction();
+    });
+  }, [seed, transactionRate]);
+
+  // Buffer trades from whichever feed is running and sort full batches
+  const receiveTrades = useCallback((incoming: Transaction[]) => {
+    transactionBuffer.current = [...transactionBuffer.current, ...incoming];
+    if (recording.current.length < MAX_RECORDING) recording.current.push(...incoming);
     
-    if (sortMethod === 'radix') {
-      radixResult = radixSort(data, sortBy);
-      mergeResult = mergeSort(data, sortBy); // For comparison
+    // Process buffer once it holds a full batch
+    if (transactionBuffer.current.length >= BATCH_SIZE) {
+      processBatch(transactionBuffer.current);
+      transactionBuffer.current = [];
     } else {
-      mergeResult = mergeSort(data, sortBy);
-      radixResult = radixSort(data, sortBy); // For comparison
+      // Update total transactions even for small batches
+      setCurrentStats(prev => ({
+        ...prev,
+        totalTransactions: prev.totalTransactions + incoming.length
+      }));
     }
-    
-    setCurrentStats(prev => ({
-      ...prev,
-      radixTime: radixResult.time,
-      mergeTime: mergeResult.time
-    }));
-    
-    return sortMethod === 'radix' ? radixResult.sorted : mergeResult.sorted;
-  }, [sortMethod, sortBy]);
+  }, [processBatch]);
+
+  // The feed outlives renders; these refs let it call the latest callbacks
+  const generateRef = useRef(generateBatch);
+  generateRef.current = generateBatch;
+  const receiveRef = useRef(receiveTrades);
+  receiveRef.current = receiveTrades;
+  const rateRef = useRef(transactionRate);
+  rateRef.current = transactionRate;
 
-  // Generate and process transactions
+  // The SSE stream runs its own simulator, so its settings live in the URL
+  const sseUrl = useMemo(() => {
+    const params = new URLSearchParams({ preset: marketPreset === 'uniform' ? 'calm' : marketPreset, rate: String(transactionRate) });
+    if (seed) params.set('seed', seed);
+    return `/api/feed?${params}`;
+  }, [marketPreset, transactionRate, seed]);
+
+  // Run the selected feed while started
   useEffect(() => {
-    if (isRunning) {
-      intervalRef.current = setInterval(() => {
-        // Generate batch of transactions
-        const batchSize = Math.floor(transactionRate / 10);
-        const newTransactions = Array.from({ length: batchSize }, generateTransaction);
-        
-        transactionBuffer.current = [...transactionBuffer.current, ...newTransactions];
-        
-        // Process buffer when it reaches a larger size (500) to amplify the time difference.
-        if (transactionBuffer.current.length >= 500) {
-          const bufferLength = transactionBuffer.current.length;
-          const sorted = sortTransactions(transactionBuffer.current);
-          
-          setTransactions(prev => [...prev.slice(-1000), ...transactionBuffer.current].slice(-2000));
-          setSortedTransactions(sorted.slice(-500));
-          
-          // Update stats first
-          setCurrentStats(prev => {
-            const newStats = {
-              ...prev,
-              totalTransactions: prev.totalTransactions + bufferLength,
-              avgSortTime: (currentStats.radixTime + currentStats.mergeTime) / 2
-            };
-            
-            // Update performance data with the new stats
-            setPerformanceData(prevData => [...prevData.slice(-20), {
-              time: new Date().toLocaleTimeString(),
-              radixTime: currentStats.radixTime,
-              mergeTime: currentStats.mergeTime,
-              transactions: bufferLength,
-              totalTransactions: newStats.totalTransactions
-            }]);
-            
-            return newStats;
+    if (!isRunning) return;
+    const feed = feedSource === 'websocket'
+      ? createWebSocketFeed(wsUrl)
+      : feedSource === 'sse'
+        ? createSseFeed(sseUrl)
+        : createSimulatorFeed(count => generateRef.current(count), () => rateRef.current);
+    feed.start({
+      onTrades: trades => receiveRef.current(trades),
+      onStatus: (status, detail) => setFeedStatus(detail ? `${status}: ${detail}` : status),
+      onInvalid: () => setInvalidMessages(count => count + 1),
+    });
+    return () => {
+      feed.stop();
+      setFeedStatus('idle');
+    };
+  }, [isRunning, feedSource, wsUrl, sseUrl]);
+
+  // Measure how parallel radix throughput scales with the number of workers
+  const runScalingBenchmark = async () => {
+    setIsBenchmarking(true);
+    setScalingError(null);
+    const data = Array.from({ length: 200000 }, () => generateTransaction());
+    const maxWorkers = Math.min(8, navigator.hardwareConcurrency || 4);
+    const results: { workers: string; throughput: number; time: number }[] = [];
+    
+    try {
+      for (let workers = 1; workers <= maxWorkers; workers *= 2) {
+        const pool = createRadixWorkerPool(workers);
+        try {
+          const result = await pool.sort(data, sortKey);
+          setScalingShared(result.shared);
+          results.push({
+            workers: `${workers}`,
+            throughput: Math.round(data.length / result.time) / 1000, // million trades per second
+            time: result.time
           });
-          
-          transactionBuffer.current = [];
-        } else {
-          // Update total transactions even for small batches
-          setCurrentStats(prev => ({
-            ...prev,
-            totalTransactions: prev.totalTransactions + batchSize
-          }));
+          setScalingData([...results]);
+        } finally {
+          pool.terminate();
         }
-      }, 100);
-    } else if (intervalRef.current) {
-      clearInterval(intervalRef.current);
+      }
+    } catch (error) {
+      setScalingError((error as Error).message);
+    } finally {
+      setIsBenchmarking(false);
     }
-    
-    return () => {
-      if (intervalRef.current) clearInterval(intervalRef.current);
-    };
-  }, [isRunning, transactionRate, generateTransaction, sortTransactions, currentStats.radixTime, currentStats.mergeTime]);
+  };
+
+  const toggleCompareMethod = (name: string) => {
+    setCompareMethods(prev => (prev.includes(name) ? prev.filter(method => method !== name) : [...prev, name]));
+  };
+
+  const updateSortField = (index: number, patch: Partial<SortSpec>) => {
+    setSortFields(prev => prev.map((field, i) => (i === index ? { ...field, ...patch } : field)));
+  };
+
+  const addSortField = () => {
+    const unused = sortKeyOptions.find(option => !sortFields.some(field => field.key === option.value));
+    if (unused) setSortFields(prev => [...prev, { key: unused.value, direction: 'asc' }]);
+  };
+
+  const removeSortField = (index: number) => {
+    setSortFields(prev => prev.filter((_, i) => i !== index));
+  };
 
   const toggleSimulation = () => {
     setIsRunning(!isRunning);
@@ -235,17 +631,23 @@ const TradeWiz = () => {
     setIsRunning(false);
     setTransactions([]);
     setSortedTransactions([]);
+    sortedWindow.current?.clear();
+    setWindowTop([]);
+    setWindowHistory([]);
     setPerformanceData([]);
+    setSkippedAlgorithms([]);
+    setVerification({ batches: 0, last: {}, failures: [] });
     setCurrentStats({
       totalTransactions: 0,
       avgSortTime: 0,
-      radixTime: 0,
-      mergeTime: 0
+      times: {},
+      summaries: {}
     });
     transactionBuffer.current = [];
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-    }
+    setSession(newSession());
+    startSource();
+    simulator.current?.update({ arrivalRate: transactionRate });
+    setInvalidMessages(0);
   };
 
   return (
@@ -266,24 +668,14 @@ const TradeWiz = () => {
               <label className="block text-sm font-medium mb-2">Sort Algorithm</label>
               <select 
                 value={sortMethod} 
-                onChange={(e) => setSortMethod(e.target.value as 'radix' | 'merge')}
+                onChange={(e) => setSortMethod(e.target.value)}
                 className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
               >
-                <option value="radix">Radix Sort</option>
-                <option value="merge">Merge Sort</option>
-              </select>
-            </div>
-            
-            <div>
-              <label className="block text-sm font-medium mb-2">Sort By</label>
-              <select 
-                value={sortBy} 
-                onChange={(e) => setSortBy(e.target.value as SortKey)}
-                className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="price">Trade Price</option>
-                <option value="symbol">Stock Symbol</option>
-                <option value="timestamp">Timestamp</option>
+                {listAlgorithms().map(algorithm => (
+                  <option key={algorithm.name} value={algorithm.name} disabled={!algorithm.supports(sortKey)}>
+                    {algorithm.label}
+                  </option>
+                ))}
               </select>
             </div>
             
@@ -301,6 +693,30 @@ const TradeWiz = () => {
               <span className="text-sm text-gray-400">{transactionRate.toLocaleString()}</span>
             </div>
             
+            <div>
+              <label className="block text-sm font-medium mb-2">Trials / Warm-up Runs</label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min="1"
+                  max="50"
+                  value={trials}
+                  onChange={(e) => setTrials(Math.max(1, Math.min(50, Number(e.target.value) || 1)))}
+                  className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
+                  title="Timed runs per algorithm per batch"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  max="20"
+                  value={warmupRuns}
+                  onChange={(e) => setWarmupRuns(Math.max(0, Math.min(20, Number(e.target.value) || 0)))}
+                  className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
+                  title="Untimed runs per algorithm before measuring"
+                />
+              </div>
+            </div>
+            
             <div className="flex gap-2">
               <button
                 onClick={toggleSimulation}
@@ -321,8 +737,231 @@ const TradeWiz = () => {
               </button>
             </div>
           </div>
+          
+          <div className="mb-4">
+            <label className="block text-sm font-medium mb-2">Feed</label>
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={feedSource}
+                onChange={(e) => setFeedSource(e.target.value as FeedSource)}
+                className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
+              >
+                {feedSourceOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              {feedSource === 'websocket' && (
+                <input
+                  type="text"
+                  value={wsUrl}
+                  onChange={(e) => setWsUrl(e.target.value.trim())}
+                  placeholder="ws://host:port"
+                  className="w-64 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
+                  title="Try npm run mock-ws for a local test server"
+                />
+              )}
+              <span className={`text-sm ${feedStatus.startsWith('open') ? 'text-green-400' : feedStatus.startsWith('error') || feedStatus.startsWith('reconnecting') ? 'text-yellow-400' : 'text-gray-400'}`}>
+                {feedStatus}
+              </span>
+              {invalidMessages > 0 && (
+                <span className="px-2 py-0.5 rounded bg-yellow-900/60 text-yellow-300 text-xs">
+                  {invalidMessages.toLocaleString()} invalid message{invalidMessages === 1 ? '' : 's'} skipped
+                </span>
+              )}
+            </div>
+          </div>
+          
+          <div className="mb-4">
+            <label className="block text-sm font-medium mb-2">Market Simulation</label>
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={marketPreset}
+                onChange={(e) => setMarketPreset(e.target.value as MarketPreset | 'uniform')}
+                className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(marketPresets) as MarketPreset[]).map(preset => (
+                  <option key={preset} value={preset}>{marketPresets[preset].label}</option>
+                ))}
+                <option value="uniform">Uniform random (no price paths)</option>
+              </select>
+              <span className="text-sm text-gray-400">
+                {marketPreset === 'uniform'
+                  ? 'Independent uniform prices between $50 and $1050'
+                  : marketPresets[marketPreset].description}
+              </span>
+              <input
+                type="text"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value.trim())}
+                placeholder="Seed (blank = random)"
+                className="w-44 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
+                title="Same seed, preset and rate reproduce the same trades"
+              />
+              {haltedSymbols.map(symbol => (
+                <span key={symbol} className="px-2 py-0.5 rounded bg-red-900/60 text-red-300 text-xs font-mono">
+                  {symbol} HALTED
+                </span>
+              ))}
+            </div>
+          </div>
+          
+          <div className="mb-4">
+            <FilterBar applied={filterText} onApply={applyFilter} />
+          </div>
+          
+          <div>
+            <label className="block text-sm font-medium mb-2">Sort By (in priority order)</label>
+            <div className="flex flex-wrap items-center gap-2">
+              {sortFields.map((field, idx) => (
+                <div key={idx} className="flex items-center gap-1 bg-slate-700 border border-slate-600 rounded-lg px-2 py-1">
+                  <span className="text-xs text-gray-400">{idx + 1}.</span>
+                  <select
+                    value={field.key}
+                    onChange={(e) => updateSortField(idx, { key: e.target.value as SortKey })}
+                    className="bg-slate-700 text-white text-sm focus:outline-none"
+                  >
+                    {sortKeyOptions.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => updateSortField(idx, { direction: field.direction === 'asc' ? 'desc' : 'asc' })}
+                    className="px-2 text-sm text-blue-300 hover:text-blue-200"
+                  >
+                    {field.direction === 'asc' ? '↑ Asc' : '↓ Desc'}
+                  </button>
+                  {sortFields.length > 1 && (
+                    <button onClick={() => removeSortField(idx)} className="px-1 text-gray-400 hover:text-red-400">
+                      ×
+                    </button>
+                  )}
+                </div>
+              ))}
+              {sortFields.length < sortKeyOptions.length && (
+                <button
+                  onClick={addSortField}
+                  className="px-3 py-1 bg-slate-600 hover:bg-slate-700 rounded-lg text-sm transition-colors"
+                >
+                  + Add key
+                </button>
+              )}
+            </div>
+          </div>
+          
+          <div className="mt-4">
+            <label className="block text-sm font-medium mb-2">Input Shape</label>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={distribution}
+                onChange={(e) => setDistribution(e.target.value as Distribution)}
+                className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(distributions) as Distribution[]).map(name => (
+                  <option key={name} value={name}>{distributions[name].label}</option>
+                ))}
+              </select>
+              {distributions[distribution].usesPercent && (
+                <>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={shapePercent}
+                    onChange={(e) => setShapePercent(Math.max(0, Math.min(100, Number(e.target.value) || 0)))}
+                    className="w-20 bg-slate-700 border border-slate-600 rounded-lg px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-400">%</span>
+                </>
+              )}
+            </div>
+          </div>
+          
+          <div className="mt-4">
+            <label className="block text-sm font-medium mb-2">Filter</label>
+            <div className="flex flex-wrap gap-2">
+              <select
+                value={sideFilter}
+                onChange={(e) => setSideFilter(e.target.value as Side | 'all')}
+                className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="all">All sides</option>
+                <option value="buy">Buy</option>
+                <option value="sell">Sell</option>
+              </select>
+              <select
+                value={venueFilter}
+                onChange={(e) => setVenueFilter(e.target.value)}
+                className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="all">All venues</option>
+                {VENUES.map(venue => (
+                  <option key={venue} value={venue}>{venue}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          
+          <div className="mt-4">
+            <label className="block text-sm font-medium mb-2">Compare Against</label>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {listAlgorithms().filter(algorithm => algorithm.name !== sortMethod).map(algorithm => (
+                <label
+                  key={algorithm.name}
+                  className={`flex items-center gap-2 text-sm ${algorithm.supports(sortKey) ? '' : 'text-gray-500'}`}
+                  title={algorithm.supports(sortKey) ? undefined : `Cannot sort by ${sortLabel}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={compareMethods.includes(algorithm.name)}
+                    onChange={() => toggleCompareMethod(algorithm.name)}
+                  />
+                  <span style={{ color: algorithm.supports(sortKey) ? algorithmColor(algorithm.name) : undefined }}>
+                    {algorithm.label}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
         </div>
 
+        <ImportPanel onImport={handleImport} />
+
+        <ReplayPanel
+          getRecording={() => recording.current}
+          imported={importedTape}
+          batchSize={BATCH_SIZE}
+          onStart={() => setIsRunning(false)}
+          onBatch={processBatch}
+        />
+
+        <HistoryPanel
+          sessions={savedSessions}
+          currentId={session.id}
+          overlayIds={overlayIds}
+          available={!storeFailed}
+          error={storeError}
+          onToggleOverlay={(id) => setOverlayIds(prev => (prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]))}
+          onRename={renameSession}
+          onDelete={deleteSession}
+        />
+
+        <ExportPanel
+          sortedBatch={sortedTransactions}
+          transactions={transactions}
+          performance={performanceData}
+          metadata={{
+            algorithm: displayedAlgorithm.name,
+            compared: activeAlgorithms.map(algorithm => algorithm.name).join(','),
+            sortKey: sortKey.name,
+            distribution,
+            batchSize: BATCH_SIZE,
+            market: marketPreset,
+            seed: seed || null,
+            side: sideFilter,
+            venue: venueFilter,
+          }}
+        />
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
           <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-4 border border-slate-700">
@@ -335,37 +974,33 @@ const TradeWiz = () => {
             </div>
           </div>
           
-          <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-4 border border-slate-700">
-            <div className="flex items-center gap-3">
-              <TrendingUp className="text-green-400" size={24} />
-              <div>
-                <p className="text-sm text-gray-400">Radix Sort Time</p>
-                <p className="text-xl font-bold">{currentStats.radixTime.toFixed(2)}ms</p>
+          {activeAlgorithms.map((algorithm, idx) => (
+            <div key={algorithm.name} className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-4 border border-slate-700">
+              <div className="flex items-center gap-3">
+                {idx === 0 ? (
+                  <TrendingUp style={{ color: algorithmColor(algorithm.name) }} size={24} />
+                ) : (
+                  <Clock style={{ color: algorithmColor(algorithm.name) }} size={24} />
+                )}
+                <div>
+                  <p className="text-sm text-gray-400">{algorithm.label} Median</p>
+                  <p className="text-xl font-bold">
+                    {(currentStats.times[algorithm.name] ?? 0).toFixed(2)}ms
+                    <span className="text-sm font-normal text-gray-400">
+                      {' '}± {(currentStats.summaries[algorithm.name]?.stddev ?? 0).toFixed(2)}
+                    </span>
+                  </p>
+                </div>
               </div>
             </div>
-          </div>
-          
-          <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-4 border border-slate-700">
-            <div className="flex items-center gap-3">
-              <Clock className="text-orange-400" size={24} />
-              <div>
-                <p className="text-sm text-gray-400">Merge Sort Time</p>
-                <p className="text-xl font-bold">{currentStats.mergeTime.toFixed(2)}ms</p>
-              </div>
-            </div>
-          </div>
+          ))}
           
           <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-4 border border-slate-700">
             <div className="flex items-center gap-3">
               <DollarSign className="text-purple-400" size={24} />
               <div>
                 <p className="text-sm text-gray-400">Speed Improvement</p>
-                <p className="text-xl font-bold">
-                  {currentStats.mergeTime > 0 ? 
-                    `${((currentStats.mergeTime / currentStats.radixTime - 1) * 100).toFixed(1)}%` : 
-                    '0%'
-                  }
-                </p>
+                <p className="text-xl font-bold">{speedImprovement}</p>
               </div>
             </div>
           </div>
@@ -373,11 +1008,16 @@ const TradeWiz = () => {
 
         {/* Performance Chart */}
         <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-6 mb-6 border border-slate-700">
-          <h3 className="text-xl font-bold mb-4">Performance Comparison</h3>
+          <h3 className="text-xl font-bold mb-4">Performance Comparison (median of {trials} trials)</h3>
+          {overlayRuns.length > 0 && (
+            <p className="text-sm text-gray-400 -mt-2 mb-4">
+              Dashed lines are saved runs, aligned by batch number.
+            </p>
+          )}
           <ResponsiveContainer width="100%" height={300}>
-            <LineChart data={performanceData}>
+            <LineChart data={chartData}>
               <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-              <XAxis dataKey="time" stroke="#9CA3AF" />
+              <XAxis dataKey={overlayRuns.length > 0 ? 'batch' : 'time'} stroke="#9CA3AF" />
               <YAxis stroke="#9CA3AF" />
               <Tooltip 
                 contentStyle={{ 
@@ -387,32 +1027,278 @@ const TradeWiz = () => {
                 }} 
               />
               <Legend />
-              <Line type="monotone" dataKey="radixTime" stroke="#10B981" strokeWidth={2} name="Radix Sort (ms)" />
-              <Line type="monotone" dataKey="mergeTime" stroke="#F59E0B" strokeWidth={2} name="Merge Sort (ms)" />
+              {activeAlgorithms.map(algorithm => (
+                <Line
+                  key={algorithm.name}
+                  type="monotone"
+                  dataKey={(row: ChartRow) => row.live?.times[algorithm.name]}
+                  stroke={algorithmColor(algorithm.name)}
+                  strokeWidth={2}
+                  name={`${algorithm.label} (ms)`}
+                />
+              ))}
+              {overlayRuns.flatMap((run, r) =>
+                Object.keys(run.summary.times).map(name => (
+                  <Line
+                    key={`${run.id}-${name}`}
+                    type="monotone"
+                    dataKey={(row: ChartRow) => row.runs[r]?.times[name]}
+                    stroke={algorithmColor(name)}
+                    strokeWidth={1.5}
+                    strokeDasharray={overlayDashes[r % overlayDashes.length]}
+                    dot={false}
+                    name={`${run.name}: ${name} (ms)`}
+                  />
+                ))
+              )}
             </LineChart>
           </ResponsiveContainer>
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Sorted Transactions */}
-          <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-6 border border-slate-700">
-            <h3 className="text-xl font-bold mb-4">
-              Sorted Transactions ({sortMethod === 'radix' ? 'Radix' : 'Merge'} Sort by {sortBy})
+        <AnalyticsPanel
+          summaries={analytics.current.summaries(barInterval)}
+          candles={analytics.current.bars(analyticsSymbol, barInterval)}
+          symbol={analyticsSymbol}
+          onSymbolChange={setAnalyticsSymbol}
+          interval={barInterval}
+          onIntervalChange={setBarInterval}
+        />
+
+        {/* Algorithm Comparison */}
+        <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-6 mb-6 border border-slate-700">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+            <h3 className="text-xl font-bold">Algorithm Comparison</h3>
+            <label className="flex items-center gap-2 text-sm text-gray-300" title="Checks sortedness, permutation and stability of every output; slows each batch down">
+              <input
+                type="checkbox"
+                checked={verifySorts}
+                onChange={(e) => {
+                  setVerifySorts(e.target.checked);
+                  setVerification({ batches: 0, last: {}, failures: [] });
+                }}
+              />
+              Verify every sort (debug)
+            </label>
+          </div>
+          <p className="text-sm text-gray-400 mb-4">
+            Last batch: {warmupRuns} warm-up run{warmupRuns === 1 ? '' : 's'} then {trials} timed trial{trials === 1 ? '' : 's'} per algorithm, in shuffled order.
+            {verifySorts && ` Verified ${verification.batches.toLocaleString()} batch${verification.batches === 1 ? '' : 'es'}.`}
+            {skippedAlgorithms.length > 0 && ` Skipped ${skippedAlgorithms.join(', ')}: cannot sort this batch's ${sortLabel} values (range too wide, or negative or fractional keys).`}
+          </p>
+          {verification.failures.length > 0 && (
+            <div className="mb-4 p-3 rounded-lg bg-red-900/40 border border-red-700 text-sm">
+              {verification.failures.map(({ algorithm, batch, failure }, idx) => (
+                <p key={idx} className="text-red-300">
+                  Batch {batch}, {algorithm}: [{failure.check}] {failure.message}
+                </p>
+              ))}
+            </div>
+          )}
+          <table className="w-full text-sm">
+            <thead className="bg-slate-700">
+              <tr className="border-b border-slate-600">
+                <th className="text-left p-2">Algorithm</th>
+                <th className="text-left p-2">Stable</th>
+                <th className="text-right p-2">Median (ms)</th>
+                <th className="text-right p-2">p95 (ms)</th>
+                <th className="text-right p-2">Std Dev</th>
+                <th className="text-right p-2">95% CI of Mean</th>
+                <th className="text-right p-2">vs Fastest</th>
+                {verifySorts && <th className="text-right p-2">Verified</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {comparisonRows.map(row => (
+                <tr key={row.name} className="border-b border-slate-700/50 hover:bg-slate-700/30">
+                  <td className="p-2 font-medium" style={{ color: algorithmColor(row.name) }}>{row.label}</td>
+                  <td className="p-2">{row.stable ? 'Yes' : 'No'}</td>
+                  <td className="p-2 text-right font-mono">{row.timing.median.toFixed(3)}</td>
+                  <td className="p-2 text-right font-mono">{row.timing.p95.toFixed(3)}</td>
+                  <td className="p-2 text-right font-mono">{row.timing.stddev.toFixed(3)}</td>
+                  <td className="p-2 text-right font-mono">
+                    {Number.isFinite(row.timing.ci95[1])
+                      ? `${Math.max(0, row.timing.ci95[0]).toFixed(3)} – ${row.timing.ci95[1].toFixed(3)}`
+                      : 'n/a'}
+                  </td>
+                  <td className="p-2 text-right font-mono">{row.relative > 0 ? `${row.relative.toFixed(2)}x` : '-'}</td>
+                  {verifySorts && (
+                    <td className="p-2 text-right">
+                      {!(row.name in verification.last) ? (
+                        <span className="text-gray-500">-</span>
+                      ) : verification.last[row.name] ? (
+                        <span className="text-red-400" title={verification.last[row.name]!.message}>{verification.last[row.name]!.check}</span>
+                      ) : (
+                        <span className="text-green-400">ok</span>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          
+          {shapeRows.length > 0 && (
+            <>
+              <h4 className="text-lg font-semibold mt-6 mb-2">By Input Shape</h4>
+              <table className="w-full text-sm">
+                <thead className="bg-slate-700">
+                  <tr className="border-b border-slate-600">
+                    <th className="text-left p-2">Distribution</th>
+                    <th className="text-right p-2">Batches</th>
+                    {activeAlgorithms.map(algorithm => (
+                      <th key={algorithm.name} className="text-right p-2" style={{ color: algorithmColor(algorithm.name) }}>
+                        {algorithm.label} (ms)
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {shapeRows.map(row => (
+                    <tr key={row.shape} className="border-b border-slate-700/50 hover:bg-slate-700/30">
+                      <td className="p-2">{distributions[row.shape].label}</td>
+                      <td className="p-2 text-right font-mono">{row.batches}</td>
+                      {activeAlgorithms.map(algorithm => (
+                        <td key={algorithm.name} className="p-2 text-right font-mono">
+                          {row.means[algorithm.name]?.toFixed(3) ?? '-'}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+
+        {/* Worker Scaling */}
+        <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-6 mb-6 border border-slate-700">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold flex items-center gap-2">
+              <Cpu className="text-cyan-400" size={20} />
+              Parallel Radix Sort Scaling
             </h3>
+            <button
+              onClick={runScalingBenchmark}
+              disabled={isBenchmarking}
+              className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 disabled:bg-slate-600 rounded-lg font-medium transition-colors"
+            >
+              {isBenchmarking ? 'Running...' : 'Run Benchmark'}
+            </button>
+          </div>
+          <p className="text-sm text-gray-400 mb-4">
+            Sorts 200,000 trades by {sortLabel} with a pool of Web Workers sharing one SharedArrayBuffer key layout.
+            {!scalingShared && ' Shared memory is unavailable on this page, so the passes ran on the main thread.'}
+          </p>
+          {scalingError && <p className="text-sm text-red-400 mb-4">Benchmark stopped: {scalingError}</p>}
+          <ResponsiveContainer width="100%" height={250}>
+            <BarChart data={scalingData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="workers" stroke="#9CA3AF" label={{ value: 'Workers', position: 'insideBottom', offset: -5, fill: '#9CA3AF' }} />
+              <YAxis stroke="#9CA3AF" />
+              <Tooltip 
+                contentStyle={{ 
+                  backgroundColor: '#1F2937', 
+                  border: '1px solid #374151',
+                  borderRadius: '8px'
+                }} 
+              />
+              <Bar dataKey="throughput" fill="#06B6D4" name="Throughput (M trades/s)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Sorted Window */}
+        <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-6 mb-6 border border-slate-700">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h3 className="text-xl font-bold">Sorted Window: Incremental Merge vs Full Re-sort</h3>
+            <select
+              value={windowCapacity}
+              onChange={(e) => setWindowCapacity(Number(e.target.value))}
+              className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
+            >
+              {windowCapacities.map(capacity => (
+                <option key={capacity} value={capacity}>Last {capacity.toLocaleString()} trades</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-sm text-gray-400 mb-4">
+            Each batch is sorted with {displayedAlgorithm.label} and merged into the window while the oldest trades
+            are evicted. For comparison the whole window is also re-sorted from scratch.
+            {windowHistory.length > 0 && (() => {
+              const last = windowHistory[windowHistory.length - 1];
+              return ` Now ${last.size.toLocaleString()} trades, ${last.evicted.toLocaleString()} evicted last batch.`;
+            })()}
+          </p>
+          <ResponsiveContainer width="100%" height={250}>
+            <LineChart data={windowHistory}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="batch" stroke="#9CA3AF" />
+              <YAxis stroke="#9CA3AF" />
+              <Tooltip 
+                contentStyle={{ 
+                  backgroundColor: '#1F2937', 
+                  border: '1px solid #374151',
+                  borderRadius: '8px'
+                }} 
+              />
+              <Legend />
+              <Line type="monotone" dataKey="incremental" stroke="#10B981" strokeWidth={2} name="Incremental update (ms)" />
+              <Line type="monotone" dataKey="full" stroke="#EF4444" strokeWidth={2} name="Full re-sort (ms)" />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <OrderStatsPanel data={sortedWindow.current?.items ?? noTrades} />
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Sorted Transactions */}
+          <div className="lg:col-span-2 bg-slate-800/50 backdrop-blur-sm rounded-xl p-6 border border-slate-700">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+              <h3 className="text-xl font-bold">
+                {tableView === 'window' ? 'Top 20 in Window' : 'Last Batch'} ({displayedAlgorithm.label} by {sortLabel})
+              </h3>
+              <div className="flex rounded-lg overflow-hidden border border-slate-600 text-sm">
+                {(['window', 'batch'] as const).map(view => (
+                  <button
+                    key={view}
+                    onClick={() => setTableView(view)}
+                    className={`px-3 py-1 ${tableView === view ? 'bg-blue-600' : 'bg-slate-700 hover:bg-slate-600'}`}
+                  >
+                    {view === 'window' ? 'Window' : 'Batch'}
+                  </button>
+                ))}
+              </div>
+            </div>
             <div className="max-h-80 overflow-y-auto">
               <table className="w-full text-sm">
                 <thead className="sticky top-0 bg-slate-700">
                   <tr className="border-b border-slate-600">
+                    <th className="text-left p-2">Seq</th>
                     <th className="text-left p-2">Symbol</th>
-                    <th className="text-left p-2">Price</th>
+                    <th className="text-left p-2">Side</th>
+                    <th className="text-right p-2">Qty</th>
+                    <th className="text-right p-2">Price</th>
+                    <th className="text-right p-2">Notional</th>
+                    <th className="text-left p-2">Venue</th>
+                    <th className="text-left p-2">Cond</th>
                     <th className="text-left p-2">Time</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {sortedTransactions.slice(0, 20).map((transaction, idx) => (
+                  {(tableView === 'window' ? windowTop : sortedTransactions.slice(0, 20)).map(transaction => (
                     <tr key={transaction.id} className="border-b border-slate-700/50 hover:bg-slate-700/30">
+                      <td className="p-2 text-xs text-gray-400 font-mono">{transaction.sequence}</td>
                       <td className="p-2 font-mono">{transaction.symbol}</td>
-                      <td className="p-2">${transaction.price}</td>
+                      <td className={`p-2 ${transaction.side === 'buy' ? 'text-green-400' : 'text-red-400'}`}>
+                        {transaction.side.toUpperCase()}
+                      </td>
+                      <td className="p-2 text-right font-mono">{transaction.quantity}</td>
+                      <td className="p-2 text-right">${transaction.price}</td>
+                      <td className="p-2 text-right font-mono">
+                        ${notional(transaction).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      </td>
+                      <td className="p-2 font-mono text-xs">{transaction.venue}</td>
+                      <td className="p-2 font-mono text-xs text-gray-400">{transaction.conditions.join(' ')}</td>
                       <td className="p-2 text-xs text-gray-400">{transaction.displayTime}</td>
                     </tr>
                   ))}
@@ -421,12 +1307,33 @@ const TradeWiz = () => {
             </div>
           </div>
 
+          <DepthLadder
+            symbols={bookSymbols}
+            symbol={ladderSymbol}
+            onSymbolChange={setLadderSymbol}
+            depth={orderBooks.current.book(ladderSymbol)?.depth(10) ?? null}
+            events={bookStats.events}
+            executions={bookStats.executions}
+          />
+
           {/* Preprocessing Display */}
-          <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-6 border border-slate-700">
+          <div className="lg:col-span-3 bg-slate-800/50 backdrop-blur-sm rounded-xl p-6 border border-slate-700">
             <h3 className="text-xl font-bold mb-4">Radix Sort Preprocessing</h3>
             <p className="text-sm text-gray-400 mb-4">
               Showing how raw data is converted to integers for sorting. (Sample of first 20 items)
             </p>
+            {sortBy === 'timestamp' && (
+              <p className="text-sm mb-4">
+                1ns ordering check:{' '}
+                <span className={nanosecondCheck.radix ? 'text-green-400' : 'text-red-400'}>
+                  Radix {nanosecondCheck.radix ? 'passed' : 'failed'}
+                </span>
+                {' / '}
+                <span className={nanosecondCheck.merge ? 'text-green-400' : 'text-red-400'}>
+                  Merge {nanosecondCheck.merge ? 'passed' : 'failed'}
+                </span>
+              </p>
+            )}
             <div className="max-h-80 overflow-y-auto">
               <table className="w-full text-sm">
                 <thead className="sticky top-0 bg-slate-700">
@@ -436,12 +1343,12 @@ const TradeWiz = () => {
                   </tr>
                 </thead>
                 <tbody>
-                  {preprocessedData.map((transaction) => (
+                  {preprocessedData.map(({ item: transaction, key }) => (
                     <tr key={`${transaction.id}-preprocessed`} className="border-b border-slate-700/50 hover:bg-slate-700/30">
                       <td className="p-2 font-mono">
-                        {sortBy === 'price' ? `$${transaction.price}` : sortBy === 'symbol' ? transaction.symbol : transaction.timestamp}
+                        {sortKeyValues[sortBy](transaction)}
                       </td>
-                      <td className="p-2 font-mono text-green-400">{transaction.sortKey}</td>
+                      <td className="p-2 font-mono text-green-400">{key.toString()}</td>
                     </tr>
                   ))}
                 </tbody>
@@ -457,7 +1364,7 @@ const TradeWiz = () => {
             <div>
               <h4 className="font-semibold text-white mb-2">Advantages:</h4>
               <ul className="space-y-1">
-                <li>• <b>O(d * n)</b> time complexity (d=digits, n=items) vs <b>O(n log n)</b> for merge sort</li>
+                <li>• <b>O(d * (n + 2<sup>b</sup>))</b> time complexity (d=passes of b bits, n=items) vs <b>O(n log n)</b> for merge sort</li>
                 <li>• Stable sorting algorithm</li>
                 <li>• Excellent for integer-based data</li>
                 <li>• Consistent performance regardless of input distribution</li>
@@ -466,10 +1373,10 @@ const TradeWiz = () => {
             <div>
               <h4 className="font-semibold text-white mb-2">Preprocessing:</h4>
               <ul className="space-y-1">
-                <li>• Stock prices converted to integers (cents)</li>
-                <li>• Stock symbols mapped to numeric values</li>
-                <li>• Timestamps used directly as integers</li>
-                <li>• Enables efficient digit-by-digit sorting</li>
+                <li>• Stock prices converted to integers (cents), or exactly via the IEEE-754 sign flip</li>
+                <li>• Stock symbols sorted byte-by-byte with MSD radix, so any length orders exactly</li>
+                <li>• Timestamps kept as lossless 64-bit nanosecond integers</li>
+                <li>• Keys live in typed arrays; each pass permutes an index array, not the trades</li>
               </ul>
             </div>
           </div>
@@ -1,6 +1,18 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  // SharedArrayBuffer (parallel radix sort) needs a cross-origin isolated page
+  async headers() {
+    return [
+      {
+        source: '/:path*',
+        headers: [
+          { key: 'Cross-Origin-Opener-Policy', value: 'same-origin' },
+          { key: 'Cross-Origin-Embedder-Policy', value: 'require-corp' },
+        ],
+      },
+    ]
+  },
 }
 
-module.exports = "nextConfig"
\ No newline at end of file
+module.exports = nextConfig
\ No newline at end of file
@@ -0,0 +1,210 @@
+// Headless benchmark: generates transactions, times the selected sorters and
+// reports median/p95/CI per algorithm. With --window it instead streams the
+// data in batches and compares incremental window updates against full
+// re-sorts, and with --top or --quantile it times selection algorithms
+// against full sorts. Run with `npm run bench -- --help`.
+import { writeFileSync } from 'node:fs';
+import { arch, cpus, platform } from 'node:os';
+import { parseArgs } from 'node:util';
+import {
+  formatIncrementalTable,
+  formatTable,
+  runBenchmark,
+  runIncrementalBenchmark,
+  runSelectionBenchmark,
+  toCSV,
+  toIncrementalCSV,
+  toIncrementalRows,
+  toRows,
+  toSelectionCSV,
+  toSelectionRows,
+  type SelectionQuery,
+  type SelectionRow,
+} from '../src/lib/benchmark';
+import { distributions, isDistribution } from '../src/lib/distributions';
+import { SEED_EPOCH_MS, generateTransactions } from '../src/lib/generator';
+import { createRandom } from '../src/lib/random';
+import { getAlgorithm, listAlgorithms, parseSortSpecs, transactionSortKey } from '../src/lib/sorting';
+import type { Transaction } from '../src/lib/transaction';
+
+const usage = `Usage: npm run bench -- [options]
+
+  --size <n>             transactions per dataset (default 100000)
+  --key <spec>           sort key, e.g. price or symbol,-price (default price)
+  --algorithms <list>    comma-separated registry names (default all supporting the key)
+  --distribution <name>  input shape (default uniform), one of:
+                           ${Object.keys(distributions).join(', ')}
+  --percent <k>          displaced share for nearlySorted and lateArrivals (default 5)
+  --seed <text>          seed the data generator for a reproducible dataset
+  --trials <n>           timed runs per algorithm (default 10)
+  --warmup <n>           untimed runs per algorithm (default 2)
+  --window <n>           benchmark a sorted window of n trades fed batch by batch
+  --batch <n>            trades per batch in window mode (default 500)
+  --top <k>              time selecting the k largest by the key against full sorts
+                           (--algorithms picks the full sorts; default radix-8,merge)
+  --quantile <p>         time selecting quantile p (0..1) against full sorts
+  --json <file>          write results and machine info as JSON
+  --csv <file>           write results as CSV
+  --help                 show this message
+`;
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${usage}`);
+  process.exit(1);
+};
+
+const positiveInt = (name: string, text: string, min = 1) => {
+  const value = Number(text);
+  if (!Number.isInteger(value) || value < min) fail(`--${name} must be an integer >= ${min}`);
+  return value;
+};
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      size: { type: 'string', default: '100000' },
+      key: { type: 'string', default: 'price' },
+      algorithms: { type: 'string' },
+      distribution: { type: 'string', default: 'uniform' },
+      percent: { type: 'string', default: '5' },
+      seed: { type: 'string' },
+      trials: { type: 'string', default: '10' },
+      warmup: { type: 'string', default: '2' },
+      window: { type: 'string' },
+      batch: { type: 'string', default: '500' },
+      top: { type: 'string' },
+      quantile: { type: 'string' },
+      json: { type: 'string' },
+      csv: { type: 'string' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(usage);
+    return;
+  }
+
+  const size = positiveInt('size', values.size!);
+  const trials = positiveInt('trials', values.trials!);
+  const warmup = positiveInt('warmup', values.warmup!, 0);
+  const distribution = values.distribution!;
+  if (!isDistribution(distribution)) return fail(`Unknown distribution: ${distribution}`);
+  const percent = Number(values.percent);
+  if (!(percent >= 0 && percent <= 100)) return fail('--percent must be between 0 and 100');
+
+  let key;
+  try {
+    key = transactionSortKey(parseSortSpecs(values.key!));
+  } catch (error) {
+    return fail((error as Error).message);
+  }
+
+  let algorithms;
+  try {
+    algorithms = values.algorithms
+      ? values.algorithms.split(',').map(name => getAlgorithm(name.trim()))
+      : listAlgorithms();
+  } catch (error) {
+    return fail((error as Error).message);
+  }
+  const skipped = algorithms.filter(algorithm => !algorithm.supports(key));
+  skipped.forEach(algorithm => console.error(`Skipping ${algorithm.name}: cannot sort by ${key.name}`));
+  algorithms = algorithms.filter(algorithm => algorithm.supports(key));
+  if (algorithms.length === 0) return fail('No selected algorithm supports this key');
+
+  // Seeded runs also pin the start time, so timestamps repeat as well
+  const data = values.seed
+    ? generateTransactions(size, distribution, { key, percent, random: createRandom(values.seed), startTime: SEED_EPOCH_MS })
+    : generateTransactions(size, distribution, { key, percent });
+
+  // Some sorters only handle part of a key's values, e.g. counting sort and
+  // wide price ranges
+  const outOfRange = algorithms.filter(algorithm => !algorithm.supports(key, data));
+  outOfRange.forEach(algorithm => console.error(`Skipping ${algorithm.name}: cannot sort this ${distribution} data by ${key.name}`));
+  algorithms = algorithms.filter(algorithm => algorithm.supports(key, data));
+  if (algorithms.length === 0) return fail('No selected algorithm can sort this data');
+
+  if (values.top || values.quantile) {
+    const queries: SelectionQuery[] = [];
+    if (values.top) queries.push({ kind: 'top', k: positiveInt('top', values.top), direction: 'desc' });
+    if (values.quantile) {
+      const p = Number(values.quantile);
+      if (!(p >= 0 && p <= 1)) return fail('--quantile must be between 0 and 1');
+      queries.push({ kind: 'quantile', p });
+    }
+    const selectionRows: SelectionRow[] = [];
+    queries.forEach(query => {
+      const title = query.kind === 'top' ? `Top ${query.k} by -${key.name}` : `Quantile ${query.p} of ${key.name}`;
+      console.log(`${title} over ${size.toLocaleString()} ${distribution} transactions: ${warmup} warm-up, ${trials} trials`);
+      const results = runSelectionBenchmark<Transaction>(data, key, query, { warmup, trials, sorters: values.algorithms ? algorithms : undefined });
+      const width = Math.max(...results.map(row => row.label.length));
+      results.forEach(row => {
+        const agreement = row.agrees ? '' : '  (answer differs from full sort)';
+        console.log(`  ${row.label.padEnd(width)} ${row.timing.median.toFixed(3).padStart(10)} ms${agreement}`);
+      });
+      console.log('');
+      selectionRows.push(...toSelectionRows(results, title, size));
+    });
+    if (values.json) {
+      const report = {
+        createdAt: new Date().toISOString(),
+        machine: { platform: platform(), arch: arch(), cpu: cpus()[0]?.model ?? 'unknown', cores: cpus().length, node: process.version },
+        options: { size, key: key.name, distribution, percent, seed: values.seed ?? null, trials, warmup },
+        results: selectionRows,
+      };
+      writeFileSync(values.json, JSON.stringify(report, null, 2) + '\n');
+      console.log(`Wrote ${values.json}`);
+    }
+    if (values.csv) {
+      writeFileSync(values.csv, toSelectionCSV(selectionRows));
+      console.log(`Wrote ${values.csv}`);
+    }
+    return;
+  }
+
+  if (values.window) {
+    const capacity = positiveInt('window', values.window);
+    const batchSize = positiveInt('batch', values.batch!);
+    const batches: Transaction[][] = [];
+    for (let start = 0; start < data.length; start += batchSize) batches.push(data.slice(start, start + batchSize));
+    console.log(`${batches.length} batches of ${batchSize} ${distribution} transactions into a ${capacity.toLocaleString()}-trade window by ${key.name}\n`);
+    const windowResults = algorithms.map(algorithm => runIncrementalBenchmark<Transaction>(batches, key, algorithm, capacity));
+    console.log(formatIncrementalTable(windowResults));
+    if (values.json) {
+      const report = {
+        createdAt: new Date().toISOString(),
+        options: { size, key: key.name, distribution, percent, seed: values.seed ?? null, window: capacity, batch: batchSize },
+        results: windowResults,
+      };
+      writeFileSync(values.json, JSON.stringify(report, null, 2) + '\n');
+      console.log(`\nWrote ${values.json}`);
+    }
+    if (values.csv) {
+      writeFileSync(values.csv, toIncrementalCSV(toIncrementalRows(windowResults)));
+      console.log(`${values.json ? '' : '\n'}Wrote ${values.csv}`);
+    }
+    return;
+  }
+
+  console.log(`${size.toLocaleString()} ${distribution} transactions by ${key.name}: ${warmup} warm-up, ${trials} trials\n`);
+  const results = runBenchmark<Transaction>(data, key, algorithms, { warmup, trials });
+  const rows = toRows(results, distribution);
+  console.log(formatTable(rows));
+
+  if (values.json) {
+    const report = {
+      createdAt: new Date().toISOString(),
+      machine: { platform: platform(), arch: arch(), cpu: cpus()[0]?.model ?? 'unknown', cores: cpus().length, node: process.version },
+      options: { size, key: key.name, distribution, percent, seed: values.seed ?? null, trials, warmup },
+      results: rows.map((row, i) => ({ ...row, samples: results[i].timing.samples })),
+    };
+    writeFileSync(values.json, JSON.stringify(report, null, 2) + '\n');
+    console.log(`\nWrote ${values.json}`);
+  }
+  if (values.csv) {
+    writeFileSync(values.csv, toCSV(rows));
+    console.log(`${values.json ? '' : '\n'}Wrote ${values.csv}`);
+  }
+};
+
+main();
@@ -0,0 +1,129 @@
+// Local WebSocket trade feed for exercising the WebSocket adapter.
+// Run with `npm run mock-ws -- --help`.
+import { createHash } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { parseArgs } from 'node:util';
+import { toJSONTransaction } from '../src/lib/api';
+import { createTickPacer } from '../src/lib/feeds';
+import { SEED_EPOCH_MS } from '../src/lib/generator';
+import { createRandom } from '../src/lib/random';
+import { createMarketSimulator, marketPresets, type MarketPreset } from '../src/lib/simulator';
+import { toNanos } from '../src/lib/transaction';
+
+const usage = `Usage: npm run mock-ws -- [options]
+
+  --port <n>           listen port (default 8080)
+  --rate <n>           trades per second per client (default 1000)
+  --preset <name>      ${Object.keys(marketPresets).join(' | ')} (default calm)
+  --seed <text>        reproducible trades
+  --invalid-every <n>  send a malformed message every n messages (default off)
+  --drop-after <s>     close each connection after s seconds to test reconnects
+  --help               show this message
+`;
+
+const TICK_MS = 100;
+const MAX_RATE = 100000;
+const GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'; // RFC 6455 handshake constant
+
+// Unmasked server-to-client frame; opcode 0x1 text, 0x8 close, 0xA pong
+const frame = (opcode: number, payload: Buffer) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) header[1] = length;
+  else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${usage}`);
+  process.exit(1);
+};
+
+const readArgs = () => parseArgs({
+  options: {
+    port: { type: 'string', default: '8080' },
+    rate: { type: 'string', default: '1000' },
+    preset: { type: 'string', default: 'calm' },
+    seed: { type: 'string' },
+    'invalid-every': { type: 'string' },
+    'drop-after': { type: 'string' },
+    help: { type: 'boolean', default: false },
+  },
+});
+
+const main = () => {
+  let values;
+  try {
+    ({ values } = readArgs());
+  } catch (error) {
+    return fail((error as Error).message);
+  }
+  if (values.help) return console.log(usage);
+  const preset = values.preset!;
+  if (!(preset in marketPresets)) fail(`Unknown preset: ${preset}`);
+  const rate = Number(values.rate);
+  if (!Number.isFinite(rate) || rate <= 0 || rate > MAX_RATE) fail(`--rate must be a number above 0 and at most ${MAX_RATE}`);
+  const invalidEvery = Number(values['invalid-every'] ?? 0);
+  const dropAfter = Number(values['drop-after'] ?? 0);
+
+  const server = createServer((_, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain' });
+    response.end('WebSocket only\n');
+  });
+
+  server.on('upgrade', (request, socket: Duplex) => {
+    const key = request.headers['sec-websocket-key'];
+    if (typeof key !== 'string') return socket.destroy();
+    const accept = createHash('sha1').update(key + GUID).digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+
+    const simulator = createMarketSimulator(
+      { ...marketPresets[preset as MarketPreset].config, arrivalRate: rate },
+      values.seed ? { random: createRandom(values.seed), startTime: toNanos(SEED_EPOCH_MS) } : {}
+    );
+    let sent = 0;
+    const send = (text: string) => socket.write(frame(0x1, Buffer.from(text)));
+    const due = createTickPacer(TICK_MS);
+    const timer = setInterval(() => {
+      const count = due(rate);
+      if (count === 0) return;
+      sent++;
+      if (invalidEvery > 0 && sent % invalidEvery === 0) {
+        send(sent % (2 * invalidEvery) === 0 ? '{not json' : JSON.stringify([{ symbol: '', price: -1, timestamp: 'soon' }]));
+        return;
+      }
+      const trades = simulator.batch(count).map(toJSONTransaction);
+      send(JSON.stringify({ type: 'trades', trades }));
+    }, TICK_MS);
+    const dropTimer = dropAfter > 0 ? setTimeout(() => socket.end(frame(0x8, Buffer.from([0x03, 0xe9]))), dropAfter * 1000) : null;
+
+    const close = () => {
+      clearInterval(timer);
+      if (dropTimer) clearTimeout(dropTimer);
+    };
+    socket.on('close', close);
+    socket.on('error', close);
+    // Client frames are masked; only close and ping need an answer here
+    socket.on('data', (data: Buffer) => {
+      const opcode = data[0] & 0x0f;
+      if (opcode === 0x8) socket.end(frame(0x8, Buffer.alloc(0)));
+      else if (opcode === 0x9) socket.write(frame(0xa, Buffer.alloc(0)));
+    });
+    console.log(`client connected from ${request.socket.remoteAddress}`);
+  });
+
+  server.listen(Number(values.port), () => console.log(`mock feed on ws://localhost:${values.port} (${preset}, ${rate}/s)`));
+};
+
+main();
@@ -0,0 +1,87 @@
+// Property-based verification of every registered sorter: edge cases plus
+// seeded random inputs per sort key, each output checked for sortedness,
+// permutation and (where claimed) stability. Exits non-zero on any failure.
+// Run with `npm run verify -- --help`.
+import { parseArgs } from 'node:util';
+import { PROPERTY_KEYS, getAlgorithm, listAlgorithms, parseSortSpecs, runPropertySuite } from '../src/lib/sorting';
+
+const usage = `Usage: npm run verify -- [options]
+
+  --seed <text>          seed for the random inputs (default: random, printed)
+  --runs <n>             random inputs per key (default 100)
+  --max-size <n>         largest random input (default 2000)
+  --algorithms <list>    comma-separated registry names (default all)
+  --key <spec>           sort key to check, repeatable, e.g. --key price --key symbol,-price
+                           (default: ${PROPERTY_KEYS.join(' ')})
+  --help                 show this message
+`;
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${usage}`);
+  process.exit(2);
+};
+
+const positiveInt = (name: string, text: string) => {
+  const value = Number(text);
+  if (!Number.isInteger(value) || value < 1) fail(`--${name} must be an integer >= 1`);
+  return value;
+};
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      seed: { type: 'string' },
+      runs: { type: 'string', default: '100' },
+      'max-size': { type: 'string', default: '2000' },
+      algorithms: { type: 'string' },
+      key: { type: 'string', multiple: true },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(usage);
+    return;
+  }
+
+  const seed = values.seed ?? Math.random().toString(36).slice(2, 10);
+  const runs = positiveInt('runs', values.runs!);
+  const maxSize = positiveInt('max-size', values['max-size']!);
+  const keys = values.key ?? PROPERTY_KEYS;
+  let algorithms;
+  try {
+    keys.forEach(parseSortSpecs);
+    algorithms = values.algorithms ? values.algorithms.split(',').map(name => getAlgorithm(name.trim())) : listAlgorithms();
+  } catch (error) {
+    return fail((error as Error).message);
+  }
+
+  console.log(`Seed ${seed}: ${runs} random inputs of up to ${maxSize} trades per key, plus edge cases\n`);
+  const results = runPropertySuite({ seed, runs, maxSize, algorithms, keys });
+
+  const width = Math.max(...results.map(result => result.algorithm.length));
+  results.forEach(result => {
+    const status = result.failures.length > 0 ? 'FAIL' : 'ok  ';
+    const skipped = result.skipped > 0 ? `, ${result.skipped} unsupported` : '';
+    console.log(`${status} ${result.algorithm.padEnd(width)}  ${result.key.padEnd(28)} ${result.passed} passed${skipped}`);
+  });
+
+  const failures = results.flatMap(result => result.failures);
+  if (failures.length === 0) {
+    console.log(`\nAll ${results.length} algorithm/key pairs passed.`);
+    return;
+  }
+
+  console.log(`\n${failures.length} failure${failures.length === 1 ? '' : 's'}; rerun with --seed ${seed} to reproduce.`);
+  failures.forEach(({ algorithm, key, case: name, failure, counterexample }) => {
+    console.log(`\n${algorithm} by ${key}, ${name}: [${failure.check}] ${failure.message}`);
+    if (counterexample.length > 0) {
+      console.log(`  smallest failing input (${counterexample.length} trades):`);
+      counterexample.slice(0, 10).forEach(t => {
+        console.log(`    ${t.id} ${t.symbol} ${t.price} x${t.quantity} @${t.timestamp}`);
+      });
+    }
+  });
+  process.exitCode = 1;
+};
+
+main();
@@ -3,17 +3,9 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, BarChart, Bar, ResponsiveContainer } from 'recharts';
 import { Play, Pause, Settings, TrendingUp, Clock, DollarSign, Activity } from 'lucide-react';
-
-type SortKey = 'price' | 'symbol' | 'timestamp';
-
-interface Transaction {
-  id: string;
-  symbol: string;
-  price: number;
-  timestamp: number;
-  displayTime: string;
-  sortKey?: number;
-}
+import { generateTransaction } from '@/lib/generator';
+import type { Transaction } from '@/lib/transaction';
+import { mergeSort, radixSort, transactionKeys, type SortKey } from '@/lib/sorting';
 
 const TradeWiz = () => {
   const [isRunning, setIsRunning] = useState(false);
@@ -33,127 +25,17 @@ const TradeWiz = () => {
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const transactionBuffer = useRef<Transaction[]>([]);
 
-  // Stock symbols for realistic data
-  const stockSymbols = ['AAPL', 'TSLA', 'AMZN', 'GOOGL', 'MSFT', 'NVDA', 'META', 'NFLX', 'AMD', 'INTC'];
-
-  // Generate random transaction
-  const generateTransaction = useCallback(() => {
-    const symbol = stockSymbols[Math.floor(Math.random() * stockSymbols.length)];
-    const price = Math.random() * 1000 + 50; // $50-$1050
-    const timestamp = Date.now() * 1000000 + Math.floor(Math.random() * 1000000); // Nanosecond precision
-    
-    return {
-      id: Math.random().toString(36).substr(2, 9),
-      symbol,
-      price: Math.round(price * 100) / 100,
-      timestamp,
-      displayTime: new Date().toLocaleTimeString()
-    };
-  }, []);
-
-  // Preprocess data for radix sort
-  const preprocessForRadix = (data: Transaction[], sortKey: SortKey): Transaction[] => {
-    return data.map(item => {
-      let key = 0; // Initialize with default value
-      if (sortKey === 'price') {
-        // Convert price to integer (multiply by 100 for cents)
-        key = Math.floor(item.price * 100);
-      } else if (sortKey === 'symbol') {
-        // Convert symbol to integer representation
-        key = item.symbol.split('').reduce((acc: number, char: string) => acc * 256 + char.charCodeAt(0), 0);
-      } else if (sortKey === 'timestamp') {
-        key = item.timestamp;
-      }
-      return { ...item, sortKey: key };
-    });
-  };
-
-  // Parallel Radix Sort implementation
-  const parallelRadixSort = (arr: Transaction[], sortKey: 'price' | 'symbol' | 'timestamp' = 'price') => {
-    if (arr.length <= 1) return { sorted: arr, time: 0 };
-    
-    const startTime = performance.now();
-    const preprocessed = preprocessForRadix(arr, sortKey);
-    
-    // Find maximum value to determine number of digits
-    const maxVal = Math.max(...preprocessed.map(item => item.sortKey || 0));
-    const maxDigits = maxVal.toString().length;
-    
-    let sortedArray = [...preprocessed];
-    
-    // Radix sort for each digit position
-    for (let digit = 0; digit < maxDigits; digit++) {
-      const buckets: Transaction[][] = Array.from({ length: 10 }, () => []);
-      const divisor = Math.pow(10, digit);
-      
-      // Distribute into buckets (simulating parallel processing)
-      sortedArray.forEach(item => {
-        const digitValue = Math.floor((item.sortKey || 0) / divisor) % 10;
-        buckets[digitValue].push(item);
-      });
-      
-      // Collect from buckets
-      sortedArray = buckets.flat();
-    }
-    
-    const endTime = performance.now();
-    return { sorted: sortedArray, time: endTime - startTime };
-  };
-
-  // Traditional Merge Sort for comparison
-  const mergeSort = (arr: Transaction[], sortKey: 'price' | 'symbol' | 'timestamp' = 'price') => {
-    const startTime = performance.now();
-    
-    const merge = (left: Transaction[], right: Transaction[]) => {
-      const result: Transaction[] = [];
-      let i = 0, j = 0;
-      
-      while (i < left.length && j < right.length) {
-        const leftVal = sortKey === 'price' ? left[i].price : 
-                       sortKey === 'symbol' ? left[i].symbol : 
-                       left[i].timestamp;
-        const rightVal = sortKey === 'price' ? right[j].price : 
-                        sortKey === 'symbol' ? right[j].symbol : 
-                        right[j].timestamp;
-        
-        if (leftVal <= rightVal) {
-          result.push(left[i]);
-          i++;
-        } else {
-          result.push(right[j]);
-          j++;
-        }
-      }
-      
-      return result.concat(left.slice(i)).concat(right.slice(j));
-    };
-    
-    const sort = (array: Transaction[]): Transaction[] => {
-      if (array.length <= 1) return array;
-      
-      const mid = Math.floor(array.length / 2);
-      const left = sort(array.slice(0, mid));
-      const right = sort(array.slice(mid));
-      
-      return merge(left, right);
-    };
-    
-    const sorted = sort([...arr]);
-    const endTime = performance.now();
-    
-    return { sorted, time: endTime - startTime };
-  };
-
   // Sort transactions
   const sortTransactions = useCallback((data: Transaction[]) => {
+    const key = transactionKeys[sortBy];
     let radixResult, mergeResult;
     
     if (sortMethod === 'radix') {
-      radixResult = parallelRadixSort(data, sortBy);
-      mergeResult = mergeSort(data, sortBy); // For comparison
+      radixResult = radixSort(data, key);
+      mergeResult = mergeSort(data, key); // For comparison
     } else {
-      mergeResult = mergeSort(data, sortBy);
-      radixResult = parallelRadixSort(data, sortBy); // For comparison
+      mergeResult = mergeSort(data, key);
+      radixResult = radixSort(data, key); // For comparison
     }
     
     setCurrentStats(prev => ({
@@ -171,7 +53,7 @@ const TradeWiz = () => {
       intervalRef.current = setInterval(() => {
         // Generate batch of transactions
         const batchSize = Math.floor(transactionRate / 10);
-        const newTransactions = Array.from({ length: batchSize }, generateTransaction);
+        const newTransactions = Array.from({ length: batchSize }, () => generateTransaction());
         
         transactionBuffer.current = [...transactionBuffer.current, ...newTransactions];
         
@@ -219,7 +101,7 @@ const TradeWiz = () => {
     return () => {
       if (intervalRef.current) clearInterval(intervalRef.current);
     };
-  }, [isRunning, transactionRate, generateTransaction, sortTransactions]);
+  }, [isRunning, transactionRate, sortTransactions]);
 
   const toggleSimulation = () => {
     setIsRunning(!isRunning);
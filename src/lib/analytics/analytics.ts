@@ -0,0 +1,188 @@
+import type { Transaction } from '../transaction';
+
+export type BarInterval = '1s' | '1m' | '5m';
+
+const NANOS_PER_SECOND = BigInt(1000000000);
+
+export const BAR_INTERVALS: Record<BarInterval, { label: string; ns: bigint }> = {
+  '1s': { label: '1 second', ns: NANOS_PER_SECOND },
+  '1m': { label: '1 minute', ns: BigInt(60) * NANOS_PER_SECOND },
+  '5m': { label: '5 minutes', ns: BigInt(300) * NANOS_PER_SECOND },
+};
+
+export interface Candle {
+  start: bigint; // ns, aligned to the interval
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // shares
+  trades: number;
+  vwap: number;
+}
+
+export interface SymbolSummary {
+  symbol: string;
+  trades: number;
+  volume: number;
+  vwap: number; // over every trade seen
+  last: number; // price of the latest trade by timestamp
+  high: number;
+  low: number;
+  realizedVol: number; // sqrt of summed squared log returns between retained bar closes
+}
+
+export interface AnalyticsOptions {
+  maxBars?: number; // bars kept per symbol and interval
+}
+
+export interface AnalyticsEngine {
+  add(trades: readonly Transaction[]): void;
+  bars(symbol: string, interval: BarInterval): Candle[];
+  summaries(interval: BarInterval): SymbolSummary[];
+  clear(): void;
+}
+
+// A bar under construction; open and close follow trade time, so late
+// arrivals land in the right place
+interface BarState {
+  start: bigint;
+  open: number;
+  openTime: bigint;
+  high: number;
+  low: number;
+  close: number;
+  closeTime: bigint;
+  volume: number;
+  trades: number;
+  notionalCents: number;
+}
+
+interface SymbolState {
+  trades: number;
+  volume: number;
+  notionalCents: number;
+  last: number;
+  lastTime: bigint;
+  high: number;
+  low: number;
+  bars: Record<BarInterval, BarState[]>; // ascending start
+}
+
+const intervals = Object.keys(BAR_INTERVALS) as BarInterval[];
+
+export const realizedVolatility = (closes: readonly number[]) => {
+  let sum = 0;
+  for (let i = 1; i < closes.length; i++) {
+    const change = Math.log(closes[i] / closes[i - 1]);
+    sum += change * change;
+  }
+  return Math.sqrt(sum);
+};
+
+const toCandle = (bar: BarState): Candle => ({
+  start: bar.start,
+  open: bar.open,
+  high: bar.high,
+  low: bar.low,
+  close: bar.close,
+  volume: bar.volume,
+  trades: bar.trades,
+  vwap: bar.volume > 0 ? bar.notionalCents / bar.volume / 100 : bar.close,
+});
+
+// Streaming per-symbol statistics and OHLC bars at every interval at once.
+// Totals cover all trades; bars keep the most recent maxBars per interval,
+// and trades older than the oldest kept bar only count towards the totals.
+export const createAnalyticsEngine = ({ maxBars = 120 }: AnalyticsOptions = {}): AnalyticsEngine => {
+  const symbols = new Map<string, SymbolState>();
+
+  const addToBars = (bars: BarState[], intervalNs: bigint, trade: Transaction, cents: number) => {
+    const start = trade.timestamp - (trade.timestamp % intervalNs);
+    // Trades mostly arrive in order, so search from the newest bar back
+    let index = bars.length - 1;
+    while (index >= 0 && bars[index].start > start) index--;
+    let bar = index >= 0 ? bars[index] : undefined;
+    if (!bar || bar.start !== start) {
+      if (index < 0 && bars.length >= maxBars) return;
+      bar = {
+        start,
+        open: trade.price,
+        openTime: trade.timestamp,
+        high: trade.price,
+        low: trade.price,
+        close: trade.price,
+        closeTime: trade.timestamp,
+        volume: 0,
+        trades: 0,
+        notionalCents: 0,
+      };
+      bars.splice(index + 1, 0, bar);
+      if (bars.length > maxBars) bars.shift();
+    } else {
+      if (trade.timestamp < bar.openTime) {
+        bar.open = trade.price;
+        bar.openTime = trade.timestamp;
+      }
+      if (trade.timestamp >= bar.closeTime) {
+        bar.close = trade.price;
+        bar.closeTime = trade.timestamp;
+      }
+      bar.high = Math.max(bar.high, trade.price);
+      bar.low = Math.min(bar.low, trade.price);
+    }
+    bar.volume += trade.quantity;
+    bar.trades++;
+    bar.notionalCents += cents * trade.quantity;
+  };
+
+  return {
+    add(trades) {
+      trades.forEach(trade => {
+        let state = symbols.get(trade.symbol);
+        if (!state) {
+          state = {
+            trades: 0,
+            volume: 0,
+            notionalCents: 0,
+            last: trade.price,
+            lastTime: trade.timestamp,
+            high: trade.price,
+            low: trade.price,
+            bars: { '1s': [], '1m': [], '5m': [] },
+          };
+          symbols.set(trade.symbol, state);
+        }
+        // Integer cents keep VWAP sums exact
+        const cents = Math.round(trade.price * 100);
+        state.trades++;
+        state.volume += trade.quantity;
+        state.notionalCents += cents * trade.quantity;
+        state.high = Math.max(state.high, trade.price);
+        state.low = Math.min(state.low, trade.price);
+        if (trade.timestamp >= state.lastTime) {
+          state.last = trade.price;
+          state.lastTime = trade.timestamp;
+        }
+        intervals.forEach(interval => addToBars(state!.bars[interval], BAR_INTERVALS[interval].ns, trade, cents));
+      });
+    },
+    bars: (symbol, interval) => symbols.get(symbol)?.bars[interval].map(toCandle) ?? [],
+    summaries: interval =>
+      Array.from(symbols.entries())
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([symbol, state]) => ({
+          symbol,
+          trades: state.trades,
+          volume: state.volume,
+          vwap: state.volume > 0 ? state.notionalCents / state.volume / 100 : state.last,
+          last: state.last,
+          high: state.high,
+          low: state.low,
+          realizedVol: realizedVolatility(state.bars[interval].map(bar => bar.close)),
+        })),
+    clear() {
+      symbols.clear();
+    },
+  };
+};
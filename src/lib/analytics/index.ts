@@ -0,0 +1,2 @@
+export type { AnalyticsEngine, AnalyticsOptions, BarInterval, Candle, SymbolSummary } from './analytics';
+export { BAR_INTERVALS, createAnalyticsEngine, realizedVolatility } from './analytics';
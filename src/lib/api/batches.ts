@@ -0,0 +1,51 @@
+import type { BenchmarkRow } from '../benchmark';
+import type { Transaction } from '../transaction';
+
+export interface StoredBatch {
+  id: string;
+  createdAt: string; // ISO-8601
+  algorithm: string;
+  key: string;
+  time: number; // ms spent sorting
+  transactions: Transaction[]; // sorted
+}
+
+export interface AlgorithmUsage {
+  sorts: number;
+  trades: number;
+  totalMs: number;
+}
+
+export interface ServiceStats {
+  sorts: number;
+  trades: number;
+  byAlgorithm: Record<string, AlgorithmUsage>;
+  latestBenchmark: { at: string; rows: BenchmarkRow[] } | null;
+}
+
+// Sorted batches are kept in process memory for paging; the oldest are
+// dropped once the cap is reached, and a server restart forgets them all
+export const MAX_BATCHES = 20;
+
+const batches = new Map<string, StoredBatch>();
+const stats: ServiceStats = { sorts: 0, trades: 0, byAlgorithm: {}, latestBenchmark: null };
+
+export const storeBatch = (batch: StoredBatch) => {
+  batches.set(batch.id, batch);
+  while (batches.size > MAX_BATCHES) batches.delete(batches.keys().next().value as string);
+
+  stats.sorts++;
+  stats.trades += batch.transactions.length;
+  const usage = (stats.byAlgorithm[batch.algorithm] ??= { sorts: 0, trades: 0, totalMs: 0 });
+  usage.sorts++;
+  usage.trades += batch.transactions.length;
+  usage.totalMs += batch.time;
+};
+
+export const getBatch = (id: string) => batches.get(id);
+
+export const recordBenchmark = (rows: BenchmarkRow[]) => {
+  stats.latestBenchmark = { at: new Date().toISOString(), rows };
+};
+
+export const getStats = (): ServiceStats => ({ ...stats, byAlgorithm: { ...stats.byAlgorithm } });
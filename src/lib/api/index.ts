@@ -0,0 +1,6 @@
+export type { AlgorithmUsage, ServiceStats, StoredBatch } from './batches';
+export { MAX_BATCHES, getBatch, getStats, recordBenchmark, storeBatch } from './batches';
+export type { Page, TransactionJSON } from './pages';
+export { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, decodeCursor, pageOf, parsePageSize, toJSONTransaction } from './pages';
+export type { BodyLimits } from './ingest';
+export { BodyTooLargeError, parseTradeBody } from './ingest';
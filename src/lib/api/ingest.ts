@@ -0,0 +1,89 @@
+import { importTrades, type ImportOptions, type ImportReport } from '../import';
+
+export interface BodyLimits {
+  maxTrades: number; // valid trades accepted before the upload is abandoned
+  maxBytes: number;
+}
+
+// Thrown when a body goes over its limits, so the caller can answer 413
+// instead of 400
+export class BodyTooLargeError extends Error {}
+
+// Reads the body as text, giving up as soon as it passes maxBytes
+const readText = async (body: ReadableStream<Uint8Array>, maxBytes: number) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let bytes = 0;
+  let text = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      bytes += value.byteLength;
+      if (bytes > maxBytes) throw new BodyTooLargeError(`Request body is over ${maxBytes} bytes`);
+      text += decoder.decode(value, { stream: true });
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  return text + decoder.decode();
+};
+
+// JSON.parse has already rounded integers past 2^53, so a numeric
+// nanosecond timestamp there is no longer the value that was sent
+const unsafeNumber = (trades: unknown[]) => {
+  for (let i = 0; i < trades.length; i++) {
+    const trade = trades[i];
+    if (typeof trade !== 'object' || trade === null) continue;
+    const entry = Object.entries(trade).find(([, value]) => typeof value === 'number' && Math.abs(value) > Number.MAX_SAFE_INTEGER);
+    if (entry) return { index: i, field: entry[0] };
+  }
+  return null;
+};
+
+// Accepts NDJSON, CSV, a JSON array of trades or { "trades": [...] }.
+// NDJSON and CSV bodies are parsed as they stream in. JSON bodies are parsed
+// whole, so nanosecond timestamps there must be sent as strings; integers
+// too large to parse exactly are rejected. NDJSON numbers are read exactly.
+// Bodies over the limits are rejected while they are still arriving.
+export const parseTradeBody = async (request: Request, { maxTrades, maxBytes }: BodyLimits): Promise<ImportReport> => {
+  const type = (request.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+  if (!request.body) throw new Error('Request body is empty');
+  const length = Number(request.headers.get('content-length'));
+  if (length > maxBytes) throw new BodyTooLargeError(`Request body is over ${maxBytes} bytes`);
+
+  const options: ImportOptions = {
+    chunkRows: 1000,
+    onChunk: (_, progress) => {
+      if (progress.imported > maxTrades) throw new BodyTooLargeError(`At most ${maxTrades} trades per request`);
+    },
+  };
+  const stream = (source: ReadableStream<Uint8Array> | string, format?: ImportOptions['format']) =>
+    importTrades(source, { ...options, format });
+
+  if (type === 'application/x-ndjson' || type === 'application/jsonl' || type === 'application/ndjson') {
+    return stream(request.body, 'ndjson');
+  }
+  if (type === 'text/csv') return stream(request.body, 'csv');
+
+  const text = await readText(request.body, maxBytes);
+  if (!text.trimStart().startsWith('[') && !text.trimStart().startsWith('{')) return stream(text);
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch (error) {
+    // Not a single JSON document; several objects on separate lines is NDJSON
+    return stream(text, 'ndjson');
+  }
+  const trades = Array.isArray(body) ? body : (body as { trades?: unknown }).trades;
+  if (!Array.isArray(trades)) return stream(text, 'ndjson');
+  if (trades.length > maxTrades) throw new BodyTooLargeError(`At most ${maxTrades} trades per request`);
+  const unsafe = unsafeNumber(trades);
+  if (unsafe) {
+    throw new Error(
+      `Trade ${unsafe.index + 1}: "${unsafe.field}" is past ${Number.MAX_SAFE_INTEGER} and cannot be read exactly from a JSON array; ` +
+        'send nanosecond timestamps as strings, or post NDJSON'
+    );
+  }
+  return stream(trades.map(trade => JSON.stringify(trade)).join('\n'), 'ndjson');
+};
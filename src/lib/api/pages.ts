@@ -0,0 +1,44 @@
+import type { Transaction } from '../transaction';
+import type { StoredBatch } from './batches';
+
+// JSON has no bigint; nanosecond timestamps travel as decimal strings
+export type TransactionJSON = Omit<Transaction, 'timestamp'> & { timestamp: string };
+
+export interface Page {
+  batch: string;
+  total: number;
+  items: TransactionJSON[];
+  nextCursor: string | null;
+}
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
+export const toJSONTransaction = (t: Transaction): TransactionJSON => ({ ...t, timestamp: t.timestamp.toString() });
+
+// Opaque to clients; binds the offset to its batch so cursors cannot be
+// replayed against another one
+const encodeCursor = (batch: string, offset: number) => Buffer.from(`${batch}:${offset}`).toString('base64url');
+
+export const decodeCursor = (batch: string, cursor: string): number | null => {
+  const [id, offset] = Buffer.from(cursor, 'base64url').toString().split(':');
+  const value = Number(offset);
+  return id === batch && Number.isInteger(value) && value >= 0 ? value : null;
+};
+
+export const pageOf = (batch: StoredBatch, offset: number, size: number): Page => {
+  const end = Math.min(batch.transactions.length, offset + size);
+  return {
+    batch: batch.id,
+    total: batch.transactions.length,
+    items: batch.transactions.slice(offset, end).map(toJSONTransaction),
+    nextCursor: end < batch.transactions.length ? encodeCursor(batch.id, end) : null,
+  };
+};
+
+// Page size from a query value: default when absent, null when invalid
+export const parsePageSize = (value: string | null): number | null => {
+  if (value === null) return DEFAULT_PAGE_SIZE;
+  const size = Number(value);
+  return Number.isInteger(size) && size >= 1 && size <= MAX_PAGE_SIZE ? size : null;
+};
@@ -0,0 +1,10 @@
+import type { Distribution } from '../distributions';
+
+// One processed batch in the performance history
+export interface PerformancePoint {
+  time: string;
+  times: Record<string, number>; // median ms per algorithm name
+  distribution: Distribution;
+  transactions: number;
+  totalTransactions: number;
+}
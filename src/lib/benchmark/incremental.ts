@@ -0,0 +1,53 @@
+import { createSortedWindow, type KeyExtractor, type Sorter } from '../sorting';
+import { summarize, type TimingSummary } from './stats';
+
+export interface IncrementalStep {
+  batch: number;
+  size: number; // window size after the batch
+  incremental: number; // ms to sort the batch and merge it in
+  full: number; // ms to re-sort the whole window from arrival order
+}
+
+export interface IncrementalResult {
+  algorithm: string;
+  key: string;
+  capacity: number;
+  steps: IncrementalStep[];
+  // Steady state only: steps taken once the window has filled
+  incremental: TimingSummary;
+  full: TimingSummary;
+  matches: boolean; // the maintained window equalled the last full re-sort
+}
+
+// Streams batches into a sorted window and, after each one, also re-sorts
+// the entire window from scratch with the same sorter, so the two costs are
+// measured on identical contents.
+export const runIncrementalBenchmark = <T>(
+  batches: readonly (readonly T[])[],
+  key: KeyExtractor<T>,
+  sorter: Sorter<T>,
+  capacity: number
+): IncrementalResult => {
+  const window = createSortedWindow(key, sorter, { capacity });
+  let matches = true;
+  const steps = batches.map((batch, index) => {
+    const update = window.insert(batch);
+    const full = sorter.sort(window.arrivals(), key);
+    if (index === batches.length - 1) {
+      matches = full.sorted.every((item, i) => key.compare(item, window.items[i]) === 0);
+    }
+    return { batch: index + 1, size: update.size, incremental: update.sortTime + update.mergeTime, full: full.time };
+  });
+
+  const steady = steps.filter(step => step.size >= capacity);
+  const measured = steady.length > 0 ? steady : steps;
+  return {
+    algorithm: sorter.name,
+    key: key.name,
+    capacity,
+    steps,
+    incremental: summarize(measured.map(step => step.incremental)),
+    full: summarize(measured.map(step => step.full)),
+    matches,
+  };
+};
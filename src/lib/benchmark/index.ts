@@ -0,0 +1,20 @@
+export type { TimingSummary } from './stats';
+export { percentile, significantlyDifferent, summarize, tCritical95 } from './stats';
+export type { BenchmarkOptions, BenchmarkResult } from './runner';
+export { runBenchmark } from './runner';
+export type { IncrementalResult, IncrementalStep } from './incremental';
+export { runIncrementalBenchmark } from './incremental';
+export type { SelectionOptions, SelectionQuery, SelectionResult } from './selection';
+export { runSelectionBenchmark } from './selection';
+export type { BenchmarkRow, IncrementalRow, SelectionRow } from './report';
+export {
+  formatIncrementalTable,
+  formatTable,
+  toCSV,
+  toIncrementalCSV,
+  toIncrementalRows,
+  toRows,
+  toSelectionCSV,
+  toSelectionRows,
+} from './report';
+export type { PerformancePoint } from './history';
@@ -0,0 +1,143 @@
+import type { IncrementalResult } from './incremental';
+import type { BenchmarkResult } from './runner';
+import type { SelectionResult } from './selection';
+
+// One flat row per algorithm, shared by the table, JSON and CSV outputs
+export interface BenchmarkRow {
+  algorithm: string;
+  key: string;
+  distribution: string;
+  size: number;
+  trials: number;
+  median: number;
+  mean: number;
+  p95: number;
+  min: number;
+  max: number;
+  stddev: number;
+  ciLow: number;
+  ciHigh: number;
+  throughput: number; // items per second at the median
+}
+
+export const toRows = (results: BenchmarkResult<unknown>[], distribution: string): BenchmarkRow[] =>
+  results.map(({ algorithm, key, size, timing }) => ({
+    algorithm,
+    key,
+    distribution,
+    size,
+    trials: timing.samples.length,
+    median: timing.median,
+    mean: timing.mean,
+    p95: timing.p95,
+    min: timing.min,
+    max: timing.max,
+    stddev: timing.stddev,
+    ciLow: timing.ci95[0],
+    ciHigh: timing.ci95[1],
+    throughput: timing.median > 0 ? Math.round(size / (timing.median / 1000)) : 0,
+  }));
+
+const COLUMNS: (keyof BenchmarkRow)[] = [
+  'algorithm', 'key', 'distribution', 'size', 'trials',
+  'median', 'mean', 'p95', 'min', 'max', 'stddev', 'ciLow', 'ciHigh', 'throughput',
+];
+
+// One row per method answering a selection query
+export interface SelectionRow {
+  query: string; // e.g. "top 100 by -price" or "quantile 0.5 of price"
+  method: string;
+  label: string;
+  partial: boolean;
+  size: number;
+  trials: number;
+  median: number;
+  mean: number;
+  p95: number;
+  agrees: boolean;
+}
+
+export const toSelectionRows = (results: SelectionResult<unknown>[], query: string, size: number): SelectionRow[] =>
+  results.map(({ method, label, partial, timing, agrees }) => ({
+    query,
+    method,
+    label,
+    partial,
+    size,
+    trials: timing.samples.length,
+    median: timing.median,
+    mean: timing.mean,
+    p95: timing.p95,
+    agrees,
+  }));
+
+// One row per sorter maintaining a window, steady-state medians only
+export interface IncrementalRow {
+  algorithm: string;
+  key: string;
+  capacity: number;
+  batches: number;
+  incremental: number;
+  full: number;
+  matches: boolean;
+}
+
+export const toIncrementalRows = (results: IncrementalResult[]): IncrementalRow[] =>
+  results.map(({ algorithm, key, capacity, steps, incremental, full, matches }) => ({
+    algorithm,
+    key,
+    capacity,
+    batches: steps.length,
+    incremental: incremental.median,
+    full: full.median,
+    matches,
+  }));
+
+const csvField = (value: string | number | boolean) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvOf = <R>(columns: (keyof R)[], rows: R[]) =>
+  [columns.join(','), ...rows.map(row => columns.map(column => csvField(row[column] as string | number | boolean)).join(','))].join('\n') + '\n';
+
+export const toCSV = (rows: BenchmarkRow[]) => csvOf(COLUMNS, rows);
+
+export const toSelectionCSV = (rows: SelectionRow[]) =>
+  csvOf<SelectionRow>(['query', 'method', 'label', 'partial', 'size', 'trials', 'median', 'mean', 'p95', 'agrees'], rows);
+
+export const toIncrementalCSV = (rows: IncrementalRow[]) =>
+  csvOf<IncrementalRow>(['algorithm', 'key', 'capacity', 'batches', 'incremental', 'full', 'matches'], rows);
+
+const formatCell = (value: string | number) =>
+  typeof value === 'number' && !Number.isInteger(value) ? (Number.isFinite(value) ? value.toFixed(3) : 'n/a') : String(value);
+
+// Left-aligns the first column and right-aligns the rest
+const layout = (cells: string[][]) => {
+  const widths = cells[0].map((_, i) => Math.max(...cells.map(line => line[i].length)));
+  return cells
+    .map(line => line.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join('  '))
+    .join('\n');
+};
+
+// Fixed-width text table, fastest median first
+export const formatTable = (rows: BenchmarkRow[]) => {
+  const columns: (keyof BenchmarkRow)[] = ['algorithm', 'median', 'p95', 'stddev', 'ciLow', 'ciHigh', 'throughput'];
+  const ordered = [...rows].sort((a, b) => a.median - b.median);
+  return layout([columns.map(String), ...ordered.map(row => columns.map(column => formatCell(row[column])))]);
+};
+
+// Steady-state medians of incremental updates against full re-sorts
+export const formatIncrementalTable = (results: IncrementalResult[]) =>
+  layout([
+    ['algorithm', 'incremental', 'full', 'speedup', 'matches'],
+    ...[...results]
+      .sort((a, b) => a.incremental.median - b.incremental.median)
+      .map(({ algorithm, incremental, full, matches }) => [
+        algorithm,
+        formatCell(incremental.median),
+        formatCell(full.median),
+        incremental.median > 0 ? `${(full.median / incremental.median).toFixed(1)}x` : 'n/a',
+        matches ? 'yes' : 'NO',
+      ]),
+  ]);
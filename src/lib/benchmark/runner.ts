@@ -0,0 +1,59 @@
+import type { KeyExtractor, Sorter } from '../sorting';
+import { summarize, type TimingSummary } from './stats';
+
+export interface BenchmarkOptions {
+  warmup?: number; // untimed runs per algorithm before measuring
+  trials?: number; // timed runs per algorithm
+  shuffle?: boolean; // randomize algorithm order in every trial
+  random?: () => number;
+}
+
+export interface BenchmarkResult<T> {
+  algorithm: string;
+  key: string;
+  size: number;
+  timing: TimingSummary;
+  sorted: T[]; // output of the last trial
+}
+
+const shuffled = <V>(items: readonly V[], random: () => number): V[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Times every sorter on the same input. Warm-up runs let the JIT settle,
+// repeated trials give a distribution instead of a single sample, and
+// shuffling the order each trial keeps GC and cache effects from always
+// landing on the same algorithm.
+export const runBenchmark = <T>(
+  data: readonly T[],
+  key: KeyExtractor<T>,
+  sorters: readonly Sorter<T>[],
+  { warmup = 2, trials = 10, shuffle = true, random = Math.random }: BenchmarkOptions = {}
+): BenchmarkResult<T>[] => {
+  for (let round = 0; round < warmup; round++) {
+    sorters.forEach(sorter => sorter.sort(data, key));
+  }
+
+  const samples = new Map<string, number[]>(sorters.map(sorter => [sorter.name, []]));
+  const outputs = new Map<string, T[]>();
+  for (let trial = 0; trial < Math.max(1, trials); trial++) {
+    (shuffle ? shuffled(sorters, random) : sorters).forEach(sorter => {
+      const result = sorter.sort(data, key);
+      samples.get(sorter.name)?.push(result.time);
+      outputs.set(sorter.name, result.sorted);
+    });
+  }
+
+  return sorters.map(sorter => ({
+    algorithm: sorter.name,
+    key: key.name,
+    size: data.length,
+    timing: summarize(samples.get(sorter.name) ?? []),
+    sorted: outputs.get(sorter.name) ?? [],
+  }));
+};
@@ -0,0 +1,98 @@
+import {
+  compositeKey,
+  getAlgorithm,
+  quantileRank,
+  quantile,
+  radixKeysFit,
+  supportsRadixSelect,
+  topK,
+  type KeyExtractor,
+  type SortAlgorithm,
+  type SortDirection,
+} from '../sorting';
+import { summarize, type TimingSummary } from './stats';
+
+export type SelectionQuery =
+  | { kind: 'top'; k: number; direction: SortDirection }
+  | { kind: 'quantile'; p: number };
+
+export interface SelectionResult<T> {
+  method: string;
+  label: string;
+  partial: boolean; // false for the full-sort baselines
+  timing: TimingSummary;
+  answer: T[]; // top-K items, or the single quantile item
+  agrees: boolean; // same keys as the first full sort's answer
+}
+
+export interface SelectionOptions {
+  warmup?: number;
+  trials?: number;
+  sorters?: SortAlgorithm[]; // full-sort baselines, radix-8 and merge by default
+}
+
+interface Method<T> {
+  method: string;
+  label: string;
+  partial: boolean;
+  run: () => T[];
+}
+
+// Answers one query with every applicable selection algorithm and, as the
+// baseline, with full sorts that can handle the data followed by a slice or
+// index, so the table shows when partial sorting wins.
+export const runSelectionBenchmark = <T>(
+  data: readonly T[],
+  key: KeyExtractor<T>,
+  query: SelectionQuery,
+  { warmup = 1, trials = 5, sorters = [getAlgorithm('radix-8'), getAlgorithm('merge')] }: SelectionOptions = {}
+): SelectionResult<T>[] => {
+  const direction = query.kind === 'top' ? query.direction : 'asc';
+  const ordered = direction === 'desc' ? compositeKey([{ key, direction }]) : key;
+  const fromSort = (algorithm: SortAlgorithm) => () => {
+    const { sorted } = algorithm.sort(data, ordered);
+    if (query.kind === 'top') return sorted.slice(0, query.k);
+    return sorted.length > 0 ? [sorted[quantileRank(sorted.length, query.p)]] : [];
+  };
+  const single = (item: T | undefined) => (item === undefined ? [] : [item]);
+
+  const methods: Method<T>[] = query.kind === 'top'
+    ? [
+      { method: 'heap', label: 'Heap top-K', partial: true, run: () => topK(data, query.k, key, query.direction, 'heap') },
+      { method: 'quickselect', label: 'Quickselect + sort K', partial: true, run: () => topK(data, query.k, key, query.direction, 'quickselect') },
+    ]
+    : [
+      { method: 'quickselect', label: 'Quickselect', partial: true, run: () => single(quantile(data, query.p, key, 'quickselect')) },
+      ...(supportsRadixSelect(key) && radixKeysFit(data, key)
+        ? [{ method: 'radix', label: 'Radix select', partial: true, run: () => single(quantile(data, query.p, key, 'radix')) }]
+        : []),
+    ];
+  sorters
+    .filter(algorithm => algorithm.supports(ordered, data))
+    .forEach(algorithm => methods.push({ method: `sort-${algorithm.name}`, label: `Full ${algorithm.label}`, partial: false, run: fromSort(algorithm) }));
+
+  const samples = new Map<string, number[]>(methods.map(({ method }) => [method, []]));
+  const answers = new Map<string, T[]>();
+  for (let round = 0; round < warmup + Math.max(1, trials); round++) {
+    methods.forEach(({ method, run }) => {
+      const start = performance.now();
+      const answer = run();
+      const time = performance.now() - start;
+      if (round >= warmup) samples.get(method)!.push(time);
+      answers.set(method, answer);
+    });
+  }
+
+  const baseline = answers.get((methods.find(({ partial }) => !partial) ?? methods[0]).method) ?? [];
+  return methods.map(({ method, label, partial }) => {
+    const answer = answers.get(method) ?? [];
+    return {
+      method,
+      label,
+      partial,
+      timing: summarize(samples.get(method) ?? []),
+      answer,
+      agrees: answer.length === baseline.length && answer.every((item, i) => key.compare(item, baseline[i]) === 0),
+    };
+  });
+};
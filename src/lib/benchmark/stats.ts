@@ -0,0 +1,54 @@
+export interface TimingSummary {
+  samples: number[]; // ms, in trial order
+  mean: number;
+  median: number;
+  p95: number;
+  min: number;
+  max: number;
+  stddev: number; // sample standard deviation
+  ci95: [number, number]; // 95% confidence interval of the mean
+}
+
+// Two-sided 95% Student's t critical values for 1..30 degrees of freedom
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+export const tCritical95 = (degreesOfFreedom: number) =>
+  degreesOfFreedom < 1 ? Infinity : degreesOfFreedom <= T_95.length ? T_95[degreesOfFreedom - 1] : 1.96;
+
+// Linear-interpolated percentile of an ascending array, p in [0, 1]
+export const percentile = (sorted: readonly number[], p: number) => {
+  if (sorted.length === 0) return NaN;
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+export const summarize = (samples: readonly number[]): TimingSummary => {
+  const n = samples.length;
+  const ordered = [...samples].sort((a, b) => a - b);
+  const mean = samples.reduce((sum, value) => sum + value, 0) / Math.max(1, n);
+  const variance = n > 1 ? samples.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1) : 0;
+  const stddev = Math.sqrt(variance);
+  const margin = n > 1 ? (tCritical95(n - 1) * stddev) / Math.sqrt(n) : Infinity;
+
+  return {
+    samples: [...samples],
+    mean,
+    median: percentile(ordered, 0.5),
+    p95: percentile(ordered, 0.95),
+    min: ordered[0] ?? NaN,
+    max: ordered[n - 1] ?? NaN,
+    stddev,
+    ci95: [mean - margin, mean + margin],
+  };
+};
+
+// True when the two confidence intervals are disjoint, i.e. the difference in
+// means is unlikely to be noise
+export const significantlyDifferent = (a: TimingSummary, b: TimingSummary) =>
+  a.ci95[1] < b.ci95[0] || b.ci95[1] < a.ci95[0];
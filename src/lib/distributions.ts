@@ -0,0 +1,114 @@
+import type { KeyExtractor } from './sorting';
+import type { Random } from './random';
+import type { Transaction } from './transaction';
+
+export type Distribution =
+  | 'uniform'
+  | 'sorted'
+  | 'reverse'
+  | 'nearlySorted'
+  | 'duplicates'
+  | 'fewSymbols'
+  | 'widePrices'
+  | 'narrowPrices'
+  | 'lateArrivals';
+
+export interface DistributionOptions {
+  key: KeyExtractor<Transaction>; // ordering for the sorted shapes
+  random?: Random;
+  percent?: number; // share of elements displaced by nearlySorted and lateArrivals
+}
+
+export interface DistributionInfo {
+  label: string;
+  usesPercent?: boolean;
+  // Reshape a batch; inputs are never mutated
+  apply: (data: readonly Transaction[], options: Required<DistributionOptions>) => Transaction[];
+}
+
+const byKey = (data: readonly Transaction[], key: KeyExtractor<Transaction>) => [...data].sort(key.compare);
+
+const swapRandom = <T>(items: T[], count: number, random: Random) => {
+  for (let i = 0; i < count && items.length > 1; i++) {
+    const a = Math.floor(random() * items.length);
+    const b = Math.floor(random() * items.length);
+    [items[a], items[b]] = [items[b], items[a]];
+  }
+  return items;
+};
+
+const cents = (price: number) => Math.round(price * 100) / 100;
+
+const DUPLICATE_PRICES = [99.5, 100, 100.25, 125, 150, 199.99, 250, 500];
+const LATE_WINDOW = 1000; // a late print arrives up to this many trades after its timestamp order
+
+export const distributions: Record<Distribution, DistributionInfo> = {
+  uniform: {
+    label: 'Random (as generated)',
+    apply: (data) => [...data],
+  },
+  sorted: {
+    label: 'Already sorted',
+    apply: (data, { key }) => byKey(data, key),
+  },
+  reverse: {
+    label: 'Reverse sorted',
+    apply: (data, { key }) => byKey(data, key).reverse(),
+  },
+  nearlySorted: {
+    label: 'Nearly sorted (k% swaps)',
+    usesPercent: true,
+    apply: (data, { key, random, percent }) =>
+      swapRandom(byKey(data, key), Math.round((data.length * percent) / 100), random),
+  },
+  duplicates: {
+    label: 'Many duplicates',
+    apply: (data, { random }) =>
+      data.map(t => ({
+        ...t,
+        price: DUPLICATE_PRICES[Math.floor(random() * DUPLICATE_PRICES.length)],
+        quantity: (1 + Math.floor(random() * 3)) * 100,
+      })),
+  },
+  fewSymbols: {
+    label: 'Few unique symbols',
+    apply: (data, { random }) => {
+      const symbols = Array.from(new Set(data.map(t => t.symbol))).slice(0, 2);
+      return data.map(t => ({ ...t, symbol: symbols[Math.floor(random() * symbols.length)] }));
+    },
+  },
+  widePrices: {
+    label: 'Wide prices ($0.01-$1M)',
+    // Log-uniform, so every order of magnitude is equally likely
+    apply: (data, { random }) => data.map(t => ({ ...t, price: Math.max(0.01, cents(Math.pow(10, random() * 8 - 2))) })),
+  },
+  narrowPrices: {
+    label: 'Narrow prices ($100.00-$100.50)',
+    apply: (data, { random }) => data.map(t => ({ ...t, price: cents(100 + random() * 0.5) })),
+  },
+  lateArrivals: {
+    label: 'Late-arriving timestamps (k%)',
+    usesPercent: true,
+    // Arrival order follows timestamps except for k% of prints that show up
+    // later than they happened; sequence numbers follow arrival
+    apply: (data, { random, percent }) => {
+      const arrivals = [...data].sort((a, b) => (a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0));
+      const late = Math.round((arrivals.length * percent) / 100);
+      for (let i = 0; i < late; i++) {
+        const from = Math.floor(random() * arrivals.length);
+        const to = Math.min(arrivals.length - 1, from + 1 + Math.floor(random() * LATE_WINDOW));
+        arrivals.splice(to, 0, arrivals.splice(from, 1)[0]);
+      }
+      const first = data.reduce((min, t) => Math.min(min, t.sequence), Infinity);
+      return arrivals.map((t, i) => ({ ...t, sequence: (Number.isFinite(first) ? first : 1) + i }));
+    },
+  },
+};
+
+export const isDistribution = (name: string): name is Distribution => name in distributions;
+
+export const applyDistribution = (
+  data: readonly Transaction[],
+  distribution: Distribution,
+  { key, random = Math.random, percent = 5 }: DistributionOptions
+): Transaction[] => distributions[distribution].apply(data, { key, random, percent });
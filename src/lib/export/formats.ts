@@ -0,0 +1,129 @@
+import type { ColumnType, ExportMetadata, ExportTable } from './table';
+
+const csvField = (value: string | number | bigint) => {
+  const text = typeof value === 'number' && Number.isNaN(value) ? '' : String(value);
+  return /[",\n#]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Metadata goes in leading "# key: value" lines; pandas reads the rest with
+// read_csv(path, comment='#')
+export const tableToCSV = ({ metadata, rows, columns }: ExportTable) => {
+  const lines = Object.keys(metadata).map(name => `# ${name}: ${metadata[name]}`);
+  lines.push(columns.map(column => column.name).join(','));
+  for (let row = 0; row < rows; row++) {
+    lines.push(columns.map(column => csvField(column.values[row])).join(','));
+  }
+  return lines.join('\n') + '\n';
+};
+
+// Row objects under a metadata header; 64-bit integers become strings so
+// nanosecond timestamps survive JSON number precision
+export const tableToJSON = ({ metadata, rows, columns }: ExportTable) => {
+  const records = Array.from({ length: rows }, (_, row) => {
+    const record: Record<string, string | number | null> = {};
+    columns.forEach(({ name, values }) => {
+      const value = values[row];
+      record[name] = typeof value === 'bigint' ? value.toString() : typeof value === 'number' && !Number.isFinite(value) ? null : value;
+    });
+    return record;
+  });
+  return JSON.stringify({ metadata, rows: records }, null, 2) + '\n';
+};
+
+// Compact columnar binary ("TWC1"), little-endian throughout:
+//   bytes 0-3   magic "TWC1"
+//   bytes 4-7   uint32 header length H
+//   bytes 8..   UTF-8 JSON header: { metadata, rows, columns: [{ name, type,
+//               offset, byteLength, dictionary? }] }, padded to 8 bytes
+//   then one contiguous block per column, each 8-byte aligned:
+//     float64 -> 8 bytes per row, int64 -> signed 8 bytes, int32 -> 4 bytes,
+//     string  -> uint32 index per row into the column's dictionary
+// Offsets are from the start of the file, so numpy can read any column with
+// np.frombuffer(buf, dtype, count=rows, offset=column['offset']).
+export const COLUMNAR_MAGIC = 'TWC1';
+
+interface ColumnHeader {
+  name: string;
+  type: ColumnType;
+  offset: number;
+  byteLength: number;
+  dictionary?: string[];
+}
+
+const BYTES_PER_VALUE: Record<ColumnType, number> = { string: 4, float64: 8, int32: 4, int64: 8 };
+
+const align8 = (n: number) => Math.ceil(n / 8) * 8;
+
+export const encodeColumnar = ({ metadata, rows, columns }: ExportTable): Uint8Array => {
+  const encoder = new TextEncoder();
+  const headers: ColumnHeader[] = columns.map(({ name, type, values }) => {
+    const header: ColumnHeader = { name, type, offset: 0, byteLength: rows * BYTES_PER_VALUE[type] };
+    if (type === 'string') header.dictionary = Array.from(new Set(values.map(String)));
+    return header;
+  });
+
+  // Offsets depend on the header's own length, so lay it out until stable
+  let headerBytes: Uint8Array = new Uint8Array(0);
+  for (let settled = false; !settled;) {
+    let offset = align8(8 + headerBytes.length);
+    headers.forEach(header => {
+      header.offset = offset;
+      offset = align8(offset + header.byteLength);
+    });
+    const next = encoder.encode(JSON.stringify({ metadata, rows, columns: headers }));
+    settled = next.length === headerBytes.length;
+    headerBytes = next;
+  }
+
+  const last = headers[headers.length - 1];
+  const buffer = new ArrayBuffer(last ? align8(last.offset + last.byteLength) : align8(8 + headerBytes.length));
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  bytes.set(encoder.encode(COLUMNAR_MAGIC), 0);
+  view.setUint32(4, headerBytes.length, true);
+  bytes.set(headerBytes, 8);
+
+  columns.forEach(({ type, values }, c) => {
+    const { offset, dictionary } = headers[c];
+    const indexOf = new Map(dictionary?.map((value, i) => [value, i]));
+    for (let row = 0; row < rows; row++) {
+      const value = values[row];
+      const at = offset + row * BYTES_PER_VALUE[type];
+      if (type === 'float64') view.setFloat64(at, Number(value), true);
+      else if (type === 'int32') view.setInt32(at, Number(value), true);
+      else if (type === 'int64') view.setBigInt64(at, BigInt(value), true);
+      else view.setUint32(at, indexOf.get(String(value)) ?? 0, true);
+    }
+  });
+  return bytes;
+};
+
+export interface DecodedTable {
+  metadata: ExportMetadata;
+  rows: number;
+  columns: Record<string, (string | number | bigint)[]>;
+}
+
+export const decodeColumnar = (bytes: Uint8Array): DecodedTable => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  if (decoder.decode(bytes.subarray(0, 4)) !== COLUMNAR_MAGIC) throw new Error('Not a TWC1 columnar file');
+  const headerLength = view.getUint32(4, true);
+  const { metadata, rows, columns } = JSON.parse(decoder.decode(bytes.subarray(8, 8 + headerLength))) as {
+    metadata: ExportMetadata;
+    rows: number;
+    columns: ColumnHeader[];
+  };
+
+  const decoded: Record<string, (string | number | bigint)[]> = {};
+  columns.forEach(({ name, type, offset, dictionary }) => {
+    decoded[name] = Array.from({ length: rows }, (_, row) => {
+      const at = offset + row * BYTES_PER_VALUE[type];
+      if (type === 'float64') return view.getFloat64(at, true);
+      if (type === 'int32') return view.getInt32(at, true);
+      if (type === 'int64') return view.getBigInt64(at, true);
+      return dictionary![view.getUint32(at, true)];
+    });
+  });
+  return { metadata, rows, columns: decoded };
+};
@@ -0,0 +1,4 @@
+export type { ColumnType, ExportColumn, ExportContext, ExportMetadata, ExportTable } from './table';
+export { performanceTable, transactionsTable } from './table';
+export type { DecodedTable } from './formats';
+export { COLUMNAR_MAGIC, decodeColumnar, encodeColumnar, tableToCSV, tableToJSON } from './formats';
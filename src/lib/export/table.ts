@@ -0,0 +1,68 @@
+import type { PerformancePoint } from '../benchmark';
+import { notional, type Transaction } from '../transaction';
+
+export type ColumnType = 'string' | 'float64' | 'int32' | 'int64';
+
+export interface ExportColumn {
+  name: string;
+  type: ColumnType;
+  values: (string | number | bigint)[];
+}
+
+// What produced the rows, so exported files can be analyzed on their own
+export interface ExportContext {
+  algorithm: string;
+  sortKey: string;
+  distribution: string;
+  batchSize: number;
+  [extra: string]: string | number | boolean | null;
+}
+
+export interface ExportMetadata extends ExportContext {
+  dataset: 'sortedBatch' | 'transactions' | 'performance';
+  exportedAt: string; // ISO-8601
+}
+
+export interface ExportTable {
+  metadata: ExportMetadata;
+  rows: number;
+  columns: ExportColumn[];
+}
+
+export const transactionsTable = (transactions: readonly Transaction[], metadata: ExportMetadata): ExportTable => ({
+  metadata,
+  rows: transactions.length,
+  columns: [
+    { name: 'sequence', type: 'float64', values: transactions.map(t => t.sequence) },
+    { name: 'id', type: 'string', values: transactions.map(t => t.id) },
+    { name: 'symbol', type: 'string', values: transactions.map(t => t.symbol) },
+    { name: 'side', type: 'string', values: transactions.map(t => t.side) },
+    { name: 'price', type: 'float64', values: transactions.map(t => t.price) },
+    { name: 'quantity', type: 'int32', values: transactions.map(t => t.quantity) },
+    { name: 'notional', type: 'float64', values: transactions.map(notional) },
+    { name: 'venue', type: 'string', values: transactions.map(t => t.venue) },
+    { name: 'conditions', type: 'string', values: transactions.map(t => t.conditions.join(' ')) },
+    { name: 'timestamp_ns', type: 'int64', values: transactions.map(t => t.timestamp) },
+  ],
+});
+
+// One row per batch, one median column per algorithm seen in the history;
+// algorithms that did not run in a batch are NaN
+export const performanceTable = (history: readonly PerformancePoint[], metadata: ExportMetadata): ExportTable => {
+  const algorithms = Array.from(new Set(history.flatMap(point => Object.keys(point.times))));
+  return {
+    metadata,
+    rows: history.length,
+    columns: [
+      { name: 'time', type: 'string', values: history.map(point => point.time) },
+      { name: 'distribution', type: 'string', values: history.map(point => point.distribution) },
+      { name: 'transactions', type: 'int32', values: history.map(point => point.transactions) },
+      { name: 'total_transactions', type: 'float64', values: history.map(point => point.totalTransactions) },
+      ...algorithms.map(name => ({
+        name: `${name}_median_ms`,
+        type: 'float64' as const,
+        values: history.map(point => point.times[name] ?? NaN),
+      })),
+    ],
+  };
+};
@@ -0,0 +1,7 @@
+export type { FeedAdapter, FeedHandlers, FeedStatus } from './types';
+export type { ParsedMessage } from './schema';
+export { parseTrade, parseTradeMessage } from './schema';
+export { createSimulatorFeed, createTickPacer } from './simulator-feed';
+export { createSseFeed } from './sse-feed';
+export type { BackoffOptions, WebSocketFeedOptions } from './websocket-feed';
+export { backoffDelay, createWebSocketFeed } from './websocket-feed';
@@ -0,0 +1,74 @@
+import type { Side, Transaction } from '../transaction';
+
+const SIDES: Side[] = ['buy', 'sell'];
+const DIGITS = /^\d+$/;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Validate one trade from the wire. timestamp is ns since the epoch, as a
+// decimal string (exact) or a safe integer; everything except symbol, price
+// and timestamp is optional. Returns the reason when the trade is rejected.
+export const parseTrade = (value: unknown, fallbackSequence = 0): Transaction | string => {
+  if (!isObject(value)) return 'trade is not an object';
+  const { id, symbol, price, quantity = 0, side = 'buy', venue = '', conditions = [], sequence = fallbackSequence, timestamp } = value;
+
+  if (typeof symbol !== 'string' || symbol.trim() === '') return 'symbol must be a non-empty string';
+  if (typeof price !== 'number' || !Number.isFinite(price) || price <= 0) return 'price must be a positive number';
+  if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < 0) return 'quantity must be a whole number';
+  if (typeof side !== 'string' || !SIDES.includes(side as Side)) return 'side must be "buy" or "sell"';
+  if (typeof venue !== 'string') return 'venue must be a string';
+  if (!Array.isArray(conditions) || !conditions.every(code => typeof code === 'string')) return 'conditions must be an array of strings';
+  if (typeof sequence !== 'number' || !Number.isInteger(sequence) || sequence < 0) return 'sequence must be a whole number';
+  if (id !== undefined && typeof id !== 'string') return 'id must be a string';
+
+  let nanos: bigint;
+  if (typeof timestamp === 'string' && DIGITS.test(timestamp)) nanos = BigInt(timestamp);
+  else if (typeof timestamp === 'number' && Number.isSafeInteger(timestamp) && timestamp >= 0) nanos = BigInt(timestamp);
+  else return 'timestamp must be ns since the epoch, as a digit string or safe integer';
+
+  return {
+    id: id ?? `${symbol}-${nanos}`,
+    symbol: symbol.trim().toUpperCase(),
+    price,
+    quantity,
+    side: side as Side,
+    venue,
+    conditions: conditions as string[],
+    sequence,
+    timestamp: nanos,
+    displayTime: new Date(Number(nanos / BigInt(1000000))).toLocaleTimeString(),
+  };
+};
+
+export interface ParsedMessage {
+  trades: Transaction[];
+  invalid: string[]; // reasons for rejected trades
+}
+
+// A message is a trade, an array of trades or { "type": "trades", "trades": [...] };
+// other message types (heartbeats, notices) carry no trades
+export const parseTradeMessage = (text: string): ParsedMessage | string => {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch (error) {
+    return 'message is not valid JSON';
+  }
+  let items: unknown[];
+  if (Array.isArray(body)) items = body;
+  else if (isObject(body) && 'type' in body) {
+    if (body.type !== 'trades') return { trades: [], invalid: [] };
+    if (!Array.isArray(body.trades)) return 'trades message has no trades array';
+    items = body.trades;
+  } else items = [body];
+
+  const trades: Transaction[] = [];
+  const invalid: string[] = [];
+  items.forEach(item => {
+    const result = parseTrade(item);
+    if (typeof result === 'string') invalid.push(result);
+    else trades.push(result);
+  });
+  return { trades, invalid };
+};
@@ -0,0 +1,40 @@
+import type { Transaction } from '../transaction';
+import type { FeedAdapter } from './types';
+
+// Trades due on each tick at `rate` per second. The fraction of a trade left
+// over each tick carries into the next, so rates under one trade per tick
+// still produce trades and every rate averages out exactly.
+export const createTickPacer = (intervalMs: number) => {
+  let owed = 0;
+  return (rate: number) => {
+    owed += (rate * intervalMs) / 1000;
+    const count = Math.floor(owed);
+    owed -= count;
+    return count;
+  };
+};
+
+// Built-in source: asks `generate` for rate x interval trades on a timer.
+// The rate is read every tick, so a slider can retune a running feed.
+export const createSimulatorFeed = (
+  generate: (count: number) => Transaction[],
+  rate: () => number, // trades per second
+  intervalMs = 100
+): FeedAdapter => {
+  let timer: ReturnType<typeof setInterval> | null = null;
+  return {
+    name: 'simulator',
+    start: ({ onTrades, onStatus }) => {
+      onStatus?.('open');
+      const due = createTickPacer(intervalMs);
+      timer = setInterval(() => {
+        const count = due(rate());
+        if (count > 0) onTrades(generate(count));
+      }, intervalMs);
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+};
@@ -0,0 +1,28 @@
+import { parseTradeMessage } from './schema';
+import type { FeedAdapter } from './types';
+
+// Server-Sent Events source, e.g. this app's /api/feed. EventSource
+// reconnects by itself; errors are reported while it does.
+export const createSseFeed = (url: string): FeedAdapter => {
+  let source: EventSource | null = null;
+  return {
+    name: 'sse',
+    start: ({ onTrades, onStatus, onInvalid }) => {
+      onStatus?.('connecting');
+      source = new EventSource(url);
+      source.onopen = () => onStatus?.('open');
+      source.onerror = () => onStatus?.(source?.readyState === EventSource.CLOSED ? 'closed' : 'reconnecting');
+      source.addEventListener('trades', (event) => {
+        const data = (event as MessageEvent<string>).data;
+        const parsed = parseTradeMessage(data);
+        if (typeof parsed === 'string') return onInvalid?.(parsed, data);
+        parsed.invalid.forEach(reason => onInvalid?.(reason, data));
+        if (parsed.trades.length > 0) onTrades(parsed.trades);
+      });
+    },
+    stop: () => {
+      source?.close();
+      source = null;
+    },
+  };
+};
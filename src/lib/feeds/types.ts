@@ -0,0 +1,18 @@
+import type { Transaction } from '../transaction';
+
+export type FeedStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed' | 'error';
+
+export interface FeedHandlers {
+  onTrades: (trades: Transaction[]) => void;
+  onStatus?: (status: FeedStatus, detail?: string) => void;
+  // A message or trade that failed schema validation; the feed keeps going
+  onInvalid?: (reason: string, raw: string) => void;
+}
+
+// A source of live trades. start() begins delivery to the handlers and
+// stop() ends it for good; adapters are single-use.
+export interface FeedAdapter {
+  readonly name: string;
+  start(handlers: FeedHandlers): void;
+  stop(): void;
+}
@@ -0,0 +1,83 @@
+import { parseTradeMessage } from './schema';
+import type { FeedAdapter } from './types';
+
+export interface BackoffOptions {
+  initialMs?: number;
+  maxMs?: number;
+  factor?: number;
+  jitter?: number; // fraction of the delay randomized, 0-1
+}
+
+export interface WebSocketFeedOptions {
+  backoff?: BackoffOptions;
+  maxRetries?: number; // Infinity keeps trying
+  // Injected for tests and non-browser runtimes
+  WebSocketImpl?: typeof WebSocket;
+}
+
+// Delay before reconnect attempt `attempt` (0-based): exponential, capped,
+// with jitter so many clients do not reconnect in lockstep
+export const backoffDelay = (
+  attempt: number,
+  { initialMs = 500, maxMs = 10000, factor = 2, jitter = 0.3 }: BackoffOptions = {},
+  random: () => number = Math.random
+) => {
+  const base = Math.min(maxMs, initialMs * Math.pow(factor, attempt));
+  return Math.round(base * (1 - jitter + random() * jitter));
+};
+
+// Generic WebSocket source. Each message is validated against the trade
+// schema; bad trades are reported and skipped. Dropped connections are
+// retried with backoff until stop() or maxRetries.
+export const createWebSocketFeed = (
+  url: string,
+  { backoff, maxRetries = Infinity, WebSocketImpl }: WebSocketFeedOptions = {}
+): FeedAdapter => {
+  let socket: WebSocket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+  let attempt = 0;
+
+  return {
+    name: 'websocket',
+    start: ({ onTrades, onStatus, onInvalid }) => {
+      const Impl = WebSocketImpl ?? WebSocket;
+
+      const connect = () => {
+        onStatus?.(attempt === 0 ? 'connecting' : 'reconnecting');
+        try {
+          socket = new Impl(url);
+        } catch (error) {
+          stopped = true;
+          onStatus?.('error', (error as Error).message);
+          return;
+        }
+        socket.onopen = () => {
+          attempt = 0;
+          onStatus?.('open');
+        };
+        socket.onmessage = (event: MessageEvent) => {
+          if (typeof event.data !== 'string') return onInvalid?.('binary messages are not supported', '');
+          const parsed = parseTradeMessage(event.data);
+          if (typeof parsed === 'string') return onInvalid?.(parsed, event.data);
+          parsed.invalid.forEach(reason => onInvalid?.(reason, event.data));
+          if (parsed.trades.length > 0) onTrades(parsed.trades);
+        };
+        socket.onclose = (event: CloseEvent) => {
+          socket = null;
+          if (stopped) return onStatus?.('closed');
+          if (attempt >= maxRetries) return onStatus?.('error', `gave up after ${attempt} retries`);
+          const delay = backoffDelay(attempt++, backoff);
+          onStatus?.('reconnecting', `closed (${event.code}); retrying in ${delay}ms`);
+          retryTimer = setTimeout(connect, delay);
+        };
+      };
+      connect();
+    },
+    stop: () => {
+      stopped = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.close();
+    },
+  };
+};
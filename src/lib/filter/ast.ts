@@ -0,0 +1,42 @@
+import { notional, type Transaction } from '../transaction';
+
+export type NumberField = 'price' | 'quantity' | 'notional' | 'sequence';
+// `condition` matches when any of the trade's condition codes does
+export type TextField = 'symbol' | 'side' | 'venue' | 'condition';
+export type FilterField = NumberField | TextField;
+
+export type CompareOp = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type FilterExpr =
+  | { kind: 'and' | 'or'; left: FilterExpr; right: FilterExpr }
+  | { kind: 'not'; operand: FilterExpr }
+  | { kind: 'compare'; field: NumberField; op: CompareOp; value: number }
+  | { kind: 'match'; field: TextField; op: '=' | '!='; value: string }
+  | { kind: 'in'; field: NumberField; values: number[] }
+  | { kind: 'in'; field: TextField; values: string[] };
+
+// A syntax or type error with the [start, end) span of the offending text
+export interface FilterError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export type ParseResult = { ok: true; expr: FilterExpr } | { ok: false; error: FilterError };
+
+export const NUMBER_FIELDS: Record<NumberField, (t: Transaction) => number> = {
+  price: t => t.price,
+  quantity: t => t.quantity,
+  notional,
+  sequence: t => t.sequence,
+};
+
+export const TEXT_FIELDS: Record<TextField, (t: Transaction) => string[]> = {
+  symbol: t => [t.symbol],
+  side: t => [t.side],
+  venue: t => [t.venue],
+  condition: t => t.conditions,
+};
+
+export const isNumberField = (field: string): field is NumberField => field in NUMBER_FIELDS;
+export const isTextField = (field: string): field is TextField => field in TEXT_FIELDS;
@@ -0,0 +1,83 @@
+import { NUMBER_FIELDS, TEXT_FIELDS, type CompareOp, type FilterExpr } from './ast';
+import type { Transaction } from '../transaction';
+
+const compareWith: Record<CompareOp, (a: number, b: number) => boolean> = {
+  '=': (a, b) => a === b,
+  '!=': (a, b) => a !== b,
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b,
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b,
+};
+
+// Turns the AST into a predicate once, so filtering a batch does no parsing
+// or field lookups by name
+export const compileFilter = (expr: FilterExpr): ((t: Transaction) => boolean) => {
+  switch (expr.kind) {
+    case 'and': {
+      const left = compileFilter(expr.left);
+      const right = compileFilter(expr.right);
+      return t => left(t) && right(t);
+    }
+    case 'or': {
+      const left = compileFilter(expr.left);
+      const right = compileFilter(expr.right);
+      return t => left(t) || right(t);
+    }
+    case 'not': {
+      const operand = compileFilter(expr.operand);
+      return t => !operand(t);
+    }
+    case 'compare': {
+      const get = NUMBER_FIELDS[expr.field];
+      const test = compareWith[expr.op];
+      return t => test(get(t), expr.value);
+    }
+    case 'match': {
+      const get = TEXT_FIELDS[expr.field];
+      return expr.op === '='
+        ? t => get(t).includes(expr.value)
+        : t => !get(t).includes(expr.value);
+    }
+    case 'in': {
+      if (expr.field in NUMBER_FIELDS) {
+        const get = NUMBER_FIELDS[expr.field as keyof typeof NUMBER_FIELDS];
+        const values = new Set(expr.values as number[]);
+        return t => values.has(get(t));
+      }
+      const get = TEXT_FIELDS[expr.field as keyof typeof TEXT_FIELDS];
+      const values = new Set(expr.values as string[]);
+      return t => get(t).some(value => values.has(value));
+    }
+  }
+};
+
+// Quotes inside a quoted value are doubled, as the tokenizer expects
+const formatValue = (value: string | number) =>
+  typeof value === 'number' || /^[A-Za-z_][A-Za-z0-9_.]*$/.test(value) ? String(value) : `'${value.replace(/'/g, "''")}'`;
+
+const precedence = (expr: FilterExpr) => (expr.kind === 'or' ? 1 : expr.kind === 'and' ? 2 : 3);
+
+// Canonical text for an AST; parsing it gives the same AST back
+export const formatFilter = (expr: FilterExpr): string => {
+  const operand = (child: FilterExpr, min: number) =>
+    precedence(child) < min ? `(${formatFilter(child)})` : formatFilter(child);
+  switch (expr.kind) {
+    case 'and':
+    case 'or': {
+      const level = precedence(expr);
+      // Both operators are left-associative, so only the right side needs
+      // parentheses at the same level
+      return `${operand(expr.left, level)} ${expr.kind} ${operand(expr.right, level + 1)}`;
+    }
+    case 'not':
+      return expr.operand.kind === 'in'
+        ? formatFilter(expr.operand).replace(' in (', ' not in (')
+        : `not ${operand(expr.operand, 3)}`;
+    case 'compare':
+    case 'match':
+      return `${expr.field} ${expr.op} ${formatValue(expr.value)}`;
+    case 'in':
+      return `${expr.field} in (${(expr.values as (string | number)[]).map(formatValue).join(', ')})`;
+  }
+};
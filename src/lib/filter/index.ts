@@ -0,0 +1,4 @@
+export type { CompareOp, FilterError, FilterExpr, FilterField, NumberField, ParseResult, TextField } from './ast';
+export { NUMBER_FIELDS, TEXT_FIELDS, isNumberField, isTextField } from './ast';
+export { parseFilter } from './parser';
+export { compileFilter, formatFilter } from './evaluate';
@@ -0,0 +1,186 @@
+import { isNumberField, isTextField, type CompareOp, type FilterError, type FilterExpr, type ParseResult } from './ast';
+
+// Grammar, keywords and field names case-insensitive:
+//
+//   expr       := and ('or' and)*
+//   and        := unary ('and' unary)*
+//   unary      := 'not' unary | '(' expr ')' | comparison
+//   comparison := field op value | field ['not'] 'in' '(' value (',' value)* ')'
+//   value      := number | word | 'quoted' | "quoted"
+//
+// A quote inside a quoted value is written twice, e.g. 'O''NEIL'.
+// e.g. symbol in (AAPL, NVDA) and price > 200 and side = buy
+
+interface Token {
+  type: 'word' | 'number' | 'string' | 'op' | '(' | ')' | ',' | 'end';
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Thrown inside the parser only; parseFilter turns it into a result
+class SyntaxFailure {
+  constructor(readonly error: FilterError) {}
+}
+
+const fail = (message: string, start: number, end: number): never => {
+  throw new SyntaxFailure({ message, start, end: Math.max(end, start + 1) });
+};
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ type: char, text: char, start, end: ++i });
+    } else if (/[<>!=]/.test(char)) {
+      const pair = text.slice(i, i + 2);
+      const op = ['<=', '>=', '!='].includes(pair) ? pair : char === '!' ? fail('Expected != after !', i, i + 1) : char;
+      i += op.length;
+      tokens.push({ type: 'op', text: op, start, end: i });
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      let close = text.indexOf(char, i + 1);
+      for (;;) {
+        if (close < 0) fail('Unterminated string', start, text.length);
+        value += text.slice(i + 1, close);
+        if (text[close + 1] !== char) break;
+        value += char;
+        i = close + 1;
+        close = text.indexOf(char, i + 1);
+      }
+      tokens.push({ type: 'string', text: value, start, end: close + 1 });
+      i = close + 1;
+    } else if (/[0-9.\-]/.test(char)) {
+      const match = /^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(text.slice(i));
+      if (!match) fail(`Unexpected "${char}"`, start, start + 1);
+      i += match![0].length;
+      tokens.push({ type: 'number', text: match![0], start, end: i });
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(text.slice(i))!;
+      i += match[0].length;
+      tokens.push({ type: 'word', text: match[0], start, end: i });
+    } else {
+      fail(`Unexpected "${char}"`, start, start + 1);
+    }
+  }
+  tokens.push({ type: 'end', text: '', start: text.length, end: text.length });
+  return tokens;
+};
+
+const describe = (token: Token) => (token.type === 'end' ? 'end of input' : `"${token.text}"`);
+
+export const parseFilter = (text: string): ParseResult => {
+  try {
+    const tokens = tokenize(text);
+    let position = 0;
+    const peek = () => tokens[position];
+    const next = () => tokens[position++];
+    const isKeyword = (token: Token, word: string) => token.type === 'word' && token.text.toLowerCase() === word;
+    const expect = (type: Token['type'], what: string) => {
+      const token = next();
+      if (token.type !== type) fail(`Expected ${what} but found ${describe(token)}`, token.start, token.end);
+      return token;
+    };
+
+    const readValue = (field: string) => {
+      const token = next();
+      if (token.type !== 'number' && token.type !== 'word' && token.type !== 'string') {
+        fail(`Expected a value for ${field} but found ${describe(token)}`, token.start, token.end);
+      }
+      if (isNumberField(field)) {
+        const value = Number(token.text);
+        if (token.type !== 'number' || !Number.isFinite(value)) fail(`${field} needs a number, not ${describe(token)}`, token.start, token.end);
+        return value;
+      }
+      if (field === 'side') {
+        const side = token.text.toLowerCase();
+        if (side !== 'buy' && side !== 'sell') fail(`side is buy or sell, not ${describe(token)}`, token.start, token.end);
+        return side;
+      }
+      // Symbols, venues and condition codes are upper case on every feed
+      return token.text.toUpperCase();
+    };
+
+    const comparison = (): FilterExpr => {
+      const fieldToken = next();
+      if (fieldToken.type !== 'word') fail(`Expected a field but found ${describe(fieldToken)}`, fieldToken.start, fieldToken.end);
+      const field = fieldToken.text.toLowerCase();
+      if (!isNumberField(field) && !isTextField(field)) {
+        return fail(`Unknown field "${fieldToken.text}"; try symbol, side, venue, condition, price, quantity, notional or sequence`, fieldToken.start, fieldToken.end);
+      }
+
+      const negated = isKeyword(peek(), 'not');
+      if (negated) next();
+      if (isKeyword(peek(), 'in')) {
+        next();
+        expect('(', '( after in');
+        const values = [readValue(field)];
+        while (peek().type === ',') {
+          next();
+          values.push(readValue(field));
+        }
+        expect(')', ') or ,');
+        const expr: FilterExpr = isNumberField(field)
+          ? { kind: 'in', field, values: values as number[] }
+          : { kind: 'in', field, values: values as string[] };
+        return negated ? { kind: 'not', operand: expr } : expr;
+      }
+      if (negated) fail(`Expected in after not but found ${describe(peek())}`, peek().start, peek().end);
+
+      const opToken = expect('op', 'a comparison like =, != or >');
+      const op = opToken.text as CompareOp;
+      const value = readValue(field);
+      if (isNumberField(field)) return { kind: 'compare', field, op, value: value as number };
+      if (op !== '=' && op !== '!=') return fail(`${field} can only be compared with = or !=`, opToken.start, opToken.end);
+      return { kind: 'match', field, op, value: value as string };
+    };
+
+    const unary = (): FilterExpr => {
+      if (isKeyword(peek(), 'not')) {
+        next();
+        return { kind: 'not', operand: unary() };
+      }
+      if (peek().type === '(') {
+        next();
+        const expr = or();
+        expect(')', ')');
+        return expr;
+      }
+      return comparison();
+    };
+
+    const and = (): FilterExpr => {
+      let left = unary();
+      while (isKeyword(peek(), 'and')) {
+        next();
+        left = { kind: 'and', left, right: unary() };
+      }
+      return left;
+    };
+
+    const or = (): FilterExpr => {
+      let left = and();
+      while (isKeyword(peek(), 'or')) {
+        next();
+        left = { kind: 'or', left, right: and() };
+      }
+      return left;
+    };
+
+    if (peek().type === 'end') fail('Empty filter', 0, 0);
+    const expr = or();
+    const rest = peek();
+    if (rest.type !== 'end') fail(`Expected and, or or the end but found ${describe(rest)}`, rest.start, rest.end);
+    return { ok: true, expr };
+  } catch (failure) {
+    if (failure instanceof SyntaxFailure) return { ok: false, error: failure.error };
+    throw failure;
+  }
+};
@@ -0,0 +1,63 @@
+import { applyDistribution, type Distribution, type DistributionOptions } from './distributions';
+import { timestampKey } from './sorting';
+import { toNanos, type Transaction } from './transaction';
+
+// Stock symbols for realistic data
+export const STOCK_SYMBOLS = ['AAPL', 'TSLA', 'AMZN', 'GOOGL', 'MSFT', 'NVDA', 'META', 'NFLX', 'AMD', 'INTC'];
+
+// Lit US equity venues, by market identifier code
+export const VENUES = ['XNAS', 'XNYS', 'ARCX', 'BATS', 'EDGX', 'IEXG'];
+
+// Start time for seeded sessions, so their timestamps repeat too
+export const SEED_EPOCH_MS = Date.UTC(2024, 5, 21, 13, 30);
+
+let nextSequence = 0;
+
+// Mostly round lots of 100-1000 shares, with some odd lots
+export const generateQuantity = (random: () => number) =>
+  random() < 0.8 ? (1 + Math.floor(random() * 10)) * 100 : 1 + Math.floor(random() * 99);
+
+// Random transaction as produced by the live feed. Pass a seeded random,
+// a virtual clock reading and a sequence number for reproducible output.
+export const generateTransaction = (
+  random: () => number = Math.random,
+  now: number = Date.now(),
+  sequence: number = ++nextSequence
+): Transaction => {
+  const symbol = STOCK_SYMBOLS[Math.floor(random() * STOCK_SYMBOLS.length)];
+  const price = random() * 1000 + 50; // $50-$1050
+  const quantity = generateQuantity(random);
+  const timestamp = toNanos(now, random() * 1000000); // Nanosecond precision
+  const conditions = ['@'];
+  if (quantity < 100) conditions.push('I');
+  if (random() < 0.1) conditions.push('F'); // intermarket sweep
+  return {
+    id: random().toString(36).substr(2, 9),
+    symbol,
+    price: Math.round(price * 100) / 100,
+    quantity,
+    side: random() < 0.5 ? 'buy' : 'sell',
+    venue: VENUES[Math.floor(random() * VENUES.length)],
+    conditions,
+    sequence,
+    timestamp,
+    displayTime: new Date(now).toLocaleTimeString(),
+  };
+};
+
+export interface GenerateOptions extends DistributionOptions {
+  startTime?: number; // epoch ms of the first trade; trades are 1ms apart
+}
+
+// Random batch reshaped into one of the benchmark distributions. With a
+// seeded random and a fixed start time the output is fully reproducible.
+export const generateTransactions = (
+  size: number,
+  distribution: Distribution = 'uniform',
+  { startTime = Date.now(), ...options }: GenerateOptions = { key: timestampKey }
+): Transaction[] =>
+  applyDistribution(
+    Array.from({ length: size }, (_, i) => generateTransaction(options.random, startTime + i, i + 1)),
+    distribution,
+    options
+  );
@@ -0,0 +1,67 @@
+// Incremental RFC 4180 CSV parser: feed text chunks in any split, get back
+// the records completed so far. Quoted fields may span chunks and lines.
+export interface CsvParser {
+  push(chunk: string): string[][];
+  flush(): string[][];
+}
+
+export const createCsvParser = (delimiter = ','): CsvParser => {
+  let field = '';
+  let record: string[] = [];
+  let quoted = false;
+  let quotePending = false; // saw a quote inside a quoted field; next char decides
+  let fieldStarted = false;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+    fieldStarted = false;
+  };
+
+  const endRecord = (records: string[][]) => {
+    endField();
+    // Skip blank lines
+    if (record.length > 1 || record[0] !== '') records.push(record);
+    record = [];
+  };
+
+  const push = (chunk: string) => {
+    const records: string[][] = [];
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+      if (quotePending) {
+        quotePending = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        quoted = false;
+      }
+      if (quoted) {
+        if (char === '"') quotePending = true;
+        else field += char;
+      } else if (char === '"' && !fieldStarted) {
+        quoted = true;
+        fieldStarted = true;
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\n') {
+        endRecord(records);
+      } else if (char !== '\r') {
+        field += char;
+        fieldStarted = true;
+      }
+    }
+    return records;
+  };
+
+  const flush = () => {
+    const records: string[][] = [];
+    quotePending = false;
+    quoted = false;
+    if (field !== '' || record.length > 0) endRecord(records);
+    return records;
+  };
+
+  return { push, flush };
+};
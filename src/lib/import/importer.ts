@@ -0,0 +1,335 @@
+import type { Side, Transaction } from '../transaction';
+import { createCsvParser } from './csv';
+import { guessMapping, missingFields, type ColumnMapping } from './mapping';
+import { detectTimestampFormat, parseTimestamp, type TimestampFormat } from './timestamps';
+
+export type ImportFormat = 'csv' | 'ndjson';
+
+export interface ImportError {
+  row: number; // 1-based record number; the CSV header is row 1
+  message: string;
+  raw: string;
+}
+
+export interface ImportProgress {
+  bytes: number;
+  rows: number;
+  imported: number;
+  errors: number;
+}
+
+export interface ImportOptions {
+  format?: ImportFormat; // detected from the first character when omitted
+  mapping?: ColumnMapping; // guessed from the header or first object when omitted
+  timestampFormat?: TimestampFormat; // detected from the first rows when omitted
+  chunkRows?: number; // transactions per onChunk call
+  maxErrors?: number; // errors kept in the report; errorCount is always exact
+  onChunk?: (transactions: Transaction[], progress: ImportProgress) => void;
+}
+
+export interface ImportReport {
+  transactions: Transaction[];
+  errors: ImportError[];
+  errorCount: number;
+  rows: number;
+  format: ImportFormat;
+  columns: string[];
+  mapping: ColumnMapping;
+  timestampFormat: TimestampFormat;
+}
+
+export interface ImportPreview {
+  format: ImportFormat;
+  columns: string[];
+  mapping: ColumnMapping;
+  timestampFormat: TimestampFormat | null;
+  rows: Record<string, string>[];
+}
+
+interface RawRow {
+  row: number;
+  values: Record<string, string>;
+  raw: string;
+}
+
+const DETECT_ROWS = 20;
+
+export const detectFormat = (text: string): ImportFormat => (text.trimStart().startsWith('{') ? 'ndjson' : 'csv');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// JSON numbers lose precision past 2^53, so numeric fields are re-read from
+// the line text; nanosecond timestamps survive intact. The same name may also
+// appear in a nested object or inside a string, so only a literal that parses
+// to the top-level value is taken.
+const ndjsonValues = (line: string, object: Record<string, unknown>): Record<string, string> => {
+  const values: Record<string, string> = {};
+  Object.keys(object).forEach(name => {
+    const value = object[name];
+    if (typeof value === 'number') {
+      const pattern = new RegExp(`"${escapeRegExp(name)}"\\s*:\\s*(-?\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)`, 'g');
+      const literal = Array.from(line.matchAll(pattern)).find(match => Number(match[1]) === value);
+      values[name] = literal ? literal[1] : String(value);
+    } else if (Array.isArray(value)) {
+      values[name] = value.join(' ');
+    } else {
+      values[name] = value === null || value === undefined ? '' : String(value);
+    }
+  });
+  return values;
+};
+
+// Splits text chunks into rows for either format
+const createRowReader = (format: ImportFormat) => {
+  let columns: string[] | null = null;
+  let row = 0;
+
+  if (format === 'csv') {
+    const parser = createCsvParser();
+    const toRows = (records: string[][]) => {
+      const rows: RawRow[] = [];
+      records.forEach(record => {
+        row++;
+        if (!columns) {
+          columns = record.map(name => name.trim());
+          return;
+        }
+        const values: Record<string, string> = {};
+        columns.forEach((name, i) => (values[name] = record[i] ?? ''));
+        rows.push({ row, values, raw: record.join(',') });
+      });
+      return rows;
+    };
+    return {
+      push: (chunk: string) => toRows(parser.push(chunk)),
+      flush: () => toRows(parser.flush()),
+      columns: () => columns ?? [],
+    };
+  }
+
+  let partial = '';
+  const toRows = (lines: string[]) => {
+    const rows: RawRow[] = [];
+    lines.forEach(line => {
+      row++;
+      if (line.trim() === '') return;
+      let object: unknown;
+      try {
+        object = JSON.parse(line);
+      } catch (error) {
+        object = undefined;
+      }
+      if (!object || typeof object !== 'object' || Array.isArray(object)) {
+        rows.push({ row, values: {}, raw: line });
+        return;
+      }
+      if (!columns) columns = Object.keys(object);
+      rows.push({ row, values: ndjsonValues(line, object as Record<string, unknown>), raw: line });
+    });
+    return rows;
+  };
+  return {
+    push: (chunk: string) => {
+      const lines = (partial + chunk).split('\n');
+      partial = lines.pop() ?? '';
+      return toRows(lines);
+    },
+    flush: () => {
+      const last = partial;
+      partial = '';
+      return toRows(last ? [last] : []);
+    },
+    columns: () => columns ?? [],
+  };
+};
+
+const SIDES: Record<string, Side> = {
+  buy: 'buy', b: 'buy', bid: 'buy', buyer: 'buy',
+  sell: 'sell', s: 'sell', ask: 'sell', offer: 'sell', seller: 'sell',
+};
+
+// Converts one row, or explains why it cannot. Unmapped sides fall back to
+// the tick rule: upticks are buys, downticks sells, repeats keep the last side.
+const createConverter = (mapping: ColumnMapping, timestampFormat: TimestampFormat) => {
+  const lastTick = new Map<string, { price: number; side: Side }>();
+  const text = (values: Record<string, string>, field: keyof ColumnMapping) => {
+    const column = mapping[field];
+    return column === undefined ? undefined : (values[column] ?? '').trim();
+  };
+
+  return ({ row, values }: RawRow): Transaction | string => {
+    if (Object.keys(values).length === 0) return 'not a JSON object';
+
+    const symbol = (text(values, 'symbol') ?? '').toUpperCase();
+    if (!symbol) return 'missing symbol';
+    if (symbol.length > 32) return `symbol longer than 32 characters: "${symbol}"`;
+
+    const priceText = text(values, 'price') ?? '';
+    const price = Number(priceText);
+    if (priceText === '' || !Number.isFinite(price) || price <= 0) return `invalid price "${priceText}"`;
+
+    const timestampText = text(values, 'timestamp') ?? '';
+    const timestamp = parseTimestamp(timestampText, timestampFormat);
+    if (timestamp === null) return `invalid timestamp "${timestampText}" (expected ${timestampFormat})`;
+
+    const quantityText = text(values, 'quantity');
+    const quantity = quantityText ? Number(quantityText) : 0;
+    if (!Number.isInteger(quantity) || quantity < 0) return `invalid quantity "${quantityText}"`;
+
+    const sequenceText = text(values, 'sequence');
+    const sequence = sequenceText ? Number(sequenceText) : row;
+    if (!Number.isInteger(sequence) || sequence < 0) return `invalid sequence "${sequenceText}"`;
+
+    const sideText = text(values, 'side');
+    const previous = lastTick.get(symbol);
+    let side: Side;
+    if (sideText) {
+      const parsed = SIDES[sideText.toLowerCase()];
+      if (!parsed) return `invalid side "${sideText}"`;
+      side = parsed;
+    } else {
+      side = !previous || price > previous.price ? 'buy' : price < previous.price ? 'sell' : previous.side;
+    }
+    lastTick.set(symbol, { price, side });
+
+    return {
+      id: text(values, 'id') || `row-${row}`,
+      symbol,
+      price,
+      quantity,
+      side,
+      venue: (text(values, 'venue') ?? '').toUpperCase(),
+      conditions: (text(values, 'conditions') ?? '').split(/[\s,;|]+/).filter(Boolean),
+      sequence,
+      timestamp,
+      displayTime: new Date(Number(timestamp / BigInt(1000000))).toLocaleTimeString(),
+    };
+  };
+};
+
+// Reads the start of a file to show columns, the guessed mapping and a few
+// rows before importing. Unless `complete`, the text is assumed to be cut off
+// mid-record and its last row is dropped.
+export const previewImport = (text: string, complete = false, format: ImportFormat = detectFormat(text)): ImportPreview => {
+  const reader = createRowReader(format);
+  const rows = reader.push(text).concat(complete ? reader.flush() : []).slice(0, DETECT_ROWS);
+  const columns = reader.columns();
+  const mapping = guessMapping(columns);
+  const timestampColumn = mapping.timestamp;
+  return {
+    format,
+    columns,
+    mapping,
+    timestampFormat: timestampColumn ? detectTimestampFormat(rows.map(row => row.values[timestampColumn] ?? '')) : null,
+    rows: rows.map(row => row.values),
+  };
+};
+
+const toStream = (source: ReadableStream<Uint8Array> | string): ReadableStream<Uint8Array> => {
+  if (typeof source !== 'string') return source;
+  const bytes = new TextEncoder().encode(source);
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(bytes);
+      controller.close();
+    },
+  });
+};
+
+// Streams CSV or NDJSON into transactions. Chunks are decoded and parsed as
+// they arrive, so large files never need to be held as one string; bad rows
+// are collected in the report instead of aborting the import.
+export const importTrades = async (
+  source: ReadableStream<Uint8Array> | string,
+  { format, mapping, timestampFormat, chunkRows = 10000, maxErrors = 1000, onChunk }: ImportOptions = {}
+): Promise<ImportReport> => {
+  const reader = toStream(source).getReader();
+  const decoder = new TextDecoder();
+  const transactions: Transaction[] = [];
+  const errors: ImportError[] = [];
+  const progress: ImportProgress = { bytes: 0, rows: 0, imported: 0, errors: 0 };
+
+  let rows: ReturnType<typeof createRowReader> | null = null;
+  let convert: ReturnType<typeof createConverter> | null = null;
+  let resolvedFormat: ImportFormat = format ?? 'csv';
+  let resolvedMapping: ColumnMapping = mapping ?? {};
+  let resolvedTimestamp: TimestampFormat | null = timestampFormat ?? null;
+  let pending: RawRow[] = [];
+  let chunk: Transaction[] = [];
+
+  const emit = () => {
+    if (chunk.length === 0) return;
+    onChunk?.(chunk, { ...progress });
+    chunk = [];
+  };
+
+  const process = (batch: RawRow[]) => {
+    batch.forEach(row => {
+      progress.rows++;
+      const result = convert!(row);
+      if (typeof result === 'string') {
+        progress.errors++;
+        if (errors.length < maxErrors) errors.push({ row: row.row, message: result, raw: row.raw });
+        return;
+      }
+      transactions.push(result);
+      chunk.push(result);
+      progress.imported++;
+      if (chunk.length >= chunkRows) emit();
+    });
+  };
+
+  // Mapping and timestamp format are settled once enough rows are buffered
+  const accept = (batch: RawRow[], done: boolean) => {
+    if (convert) return process(batch);
+    pending = pending.concat(batch);
+    if (pending.length < DETECT_ROWS && !done) return;
+    if (pending.length === 0) return;
+
+    const columns = rows!.columns();
+    resolvedMapping = mapping ?? guessMapping(columns);
+    const missing = missingFields(resolvedMapping);
+    if (missing.length > 0) {
+      throw new Error(`No column mapped for ${missing.join(', ')} (columns: ${columns.join(', ') || 'none'})`);
+    }
+    const timestampColumn = resolvedMapping.timestamp!;
+    resolvedTimestamp = resolvedTimestamp ?? detectTimestampFormat(pending.map(row => row.values[timestampColumn] ?? ''));
+    if (!resolvedTimestamp) throw new Error(`Could not detect the timestamp format of column "${timestampColumn}"`);
+
+    convert = createConverter(resolvedMapping, resolvedTimestamp);
+    process(pending);
+    pending = [];
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      progress.bytes += value.byteLength;
+      const text = decoder.decode(value, { stream: true });
+      if (!rows) {
+        if (text.trim() === '') continue;
+        resolvedFormat = format ?? detectFormat(text);
+        rows = createRowReader(resolvedFormat);
+      }
+      accept(rows.push(text), false);
+    }
+    if (rows) accept(rows.push(decoder.decode()).concat(rows.flush()), true);
+  } finally {
+    reader.releaseLock();
+  }
+  emit();
+
+  if (!rows || !resolvedTimestamp) throw new Error('The file contains no rows');
+
+  return {
+    transactions,
+    errors,
+    errorCount: progress.errors,
+    rows: progress.rows,
+    format: resolvedFormat,
+    columns: rows.columns(),
+    mapping: resolvedMapping,
+    timestampFormat: resolvedTimestamp,
+  };
+};
@@ -0,0 +1,8 @@
+export type { CsvParser } from './csv';
+export { createCsvParser } from './csv';
+export type { TimestampFormat } from './timestamps';
+export { detectTimestampFormat, parseTimestamp } from './timestamps';
+export type { ColumnMapping, ImportField } from './mapping';
+export { IMPORT_FIELDS, REQUIRED_FIELDS, guessMapping, missingFields } from './mapping';
+export type { ImportError, ImportFormat, ImportOptions, ImportPreview, ImportProgress, ImportReport } from './importer';
+export { detectFormat, importTrades, previewImport } from './importer';
@@ -0,0 +1,36 @@
+// Transaction fields an import can fill, and the source column for each
+export type ImportField = 'id' | 'symbol' | 'price' | 'quantity' | 'side' | 'venue' | 'conditions' | 'sequence' | 'timestamp';
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export const REQUIRED_FIELDS: ImportField[] = ['symbol', 'price', 'timestamp'];
+
+export const IMPORT_FIELDS: ImportField[] = ['symbol', 'price', 'timestamp', 'quantity', 'side', 'venue', 'conditions', 'sequence', 'id'];
+
+// Common header names per field, compared case- and punctuation-insensitively
+const ALIASES: Record<ImportField, string[]> = {
+  id: ['id', 'tradeid', 'tradeidentifier', 'execid', 'matchid'],
+  symbol: ['symbol', 'ticker', 'sym', 'instrument', 'security'],
+  price: ['price', 'px', 'tradeprice', 'lastprice', 'last'],
+  quantity: ['quantity', 'qty', 'size', 'volume', 'shares', 'tradesize', 'lastsize'],
+  side: ['side', 'aggressor', 'aggressorside', 'buysell', 'direction'],
+  venue: ['venue', 'exchange', 'mic', 'market', 'exch'],
+  conditions: ['conditions', 'condition', 'cond', 'conds', 'salecondition', 'saleconditions', 'tradeconditions'],
+  sequence: ['sequence', 'seq', 'seqno', 'sequencenumber'],
+  timestamp: ['timestamp', 'time', 'ts', 'datetime', 'tradetime', 'sipTimestamp', 'participanttimestamp'],
+};
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const guessMapping = (columns: readonly string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(field => {
+    const aliases = ALIASES[field].map(normalize);
+    const column = columns.find(name => aliases.includes(normalize(name)));
+    if (column !== undefined) mapping[field] = column;
+  });
+  return mapping;
+};
+
+export const missingFields = (mapping: ColumnMapping) => REQUIRED_FIELDS.filter(field => !mapping[field]);
+
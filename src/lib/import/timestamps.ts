@@ -0,0 +1,48 @@
+import { toNanos } from '../transaction';
+
+export type TimestampFormat = 'epoch-s' | 'epoch-ms' | 'epoch-us' | 'epoch-ns' | 'iso';
+
+// Decimal digits below nanoseconds for each epoch unit
+const UNIT_DIGITS: Record<Exclude<TimestampFormat, 'iso'>, number> = {
+  'epoch-s': 9,
+  'epoch-ms': 6,
+  'epoch-us': 3,
+  'epoch-ns': 0,
+};
+
+const EPOCH = /^\d+(?:\.\d+)?$/;
+const ISO = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}(?::\d{2})?)(?:[.,](\d{1,9}))?(Z|[+-]\d{2}(?::?\d{2})?)?$/i;
+
+// Pick the format from sample values, ignoring ones that fit no format so a
+// stray bad row does not block detection. Epoch units are told apart by
+// magnitude, which is unambiguous for dates between 1973 and 2286.
+export const detectTimestampFormat = (samples: readonly string[]): TimestampFormat | null => {
+  const values = samples.map(value => value.trim());
+  const iso = values.filter(value => ISO.test(value));
+  const epoch = values.filter(value => EPOCH.test(value));
+  if (iso.length === 0 && epoch.length === 0) return null;
+  if (iso.length > epoch.length) return 'iso';
+  const digits = Math.max(...epoch.map(value => value.split('.')[0].length));
+  return digits <= 11 ? 'epoch-s' : digits <= 14 ? 'epoch-ms' : digits <= 17 ? 'epoch-us' : 'epoch-ns';
+};
+
+// Exact conversion to ns since the epoch; digits are handled as text so
+// nanosecond values never round through a float64. ISO times without a
+// zone are read as UTC. Returns null when the value does not parse.
+export const parseTimestamp = (value: string, format: TimestampFormat): bigint | null => {
+  const text = value.trim();
+  if (format === 'iso') {
+    const match = ISO.exec(text);
+    if (!match) return null;
+    const [, date, time, fraction = '', zone = 'Z'] = match;
+    const offset = /^z$/i.test(zone) ? 'Z' : `${zone.slice(0, 3)}:${zone.slice(3).replace(':', '') || '00'}`;
+    const seconds = time.length === 5 ? `${time}:00` : time;
+    const ms = Date.parse(`${date}T${seconds}${offset}`);
+    if (Number.isNaN(ms)) return null;
+    return toNanos(ms, Number(fraction.padEnd(9, '0')));
+  }
+  if (!EPOCH.test(text)) return null;
+  const [whole, fraction = ''] = text.split('.');
+  const digits = UNIT_DIGITS[format];
+  return BigInt(whole + fraction.padEnd(digits, '0').slice(0, digits));
+};
@@ -0,0 +1,284 @@
+import { compositeKey, radixSort } from '../sorting';
+import type { Side, Transaction } from '../transaction';
+import type { ApplyResult, DepthLevel, DepthSnapshot, OrderEvent, RestingOrder, TopOfBook } from './types';
+
+// Orders at one price; Map iteration order is arrival order, which is
+// exactly time priority within the level
+interface PriceLevel {
+  cents: number;
+  quantity: number;
+  orders: Map<string, RestingOrder>;
+}
+
+interface BookSide {
+  levels: Map<number, PriceLevel>;
+  prices: number[]; // ascending cents; the best bid is last, the best ask first
+}
+
+export interface OrderBookOptions {
+  venue?: string; // venue stamped on execution trades
+}
+
+export interface OrderBook {
+  readonly symbol: string;
+  apply(event: OrderEvent): ApplyResult;
+  // Replaces the book with these resting orders
+  load(orders: readonly RestingOrder[]): void;
+  order(id: string): RestingOrder | undefined;
+  // Orders at the nth best level of a side, in time priority
+  queue(side: Side, level?: number): RestingOrder[];
+  top(): TopOfBook;
+  depth(levels?: number): DepthSnapshot;
+  clear(): void;
+  readonly size: number; // resting orders
+}
+
+const toCents = (price: number) => Math.round(price * 100);
+
+// First index whose price is >= cents
+const lowerBound = (prices: readonly number[], cents: number) => {
+  let lo = 0, hi = prices.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (prices[mid] < cents) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+const compareValues = <V extends number | bigint>(a: V, b: V) => (a < b ? -1 : a > b ? 1 : 0);
+
+// Price then time, so one stable radix pass per field buckets a whole
+// snapshot into levels with their queues already in priority order
+const priorityKey = compositeKey<RestingOrder>([
+  { key: { name: 'cents', radixKey: o => o.cents, dense: true, compare: (a, b) => compareValues(a.cents, b.cents) }, direction: 'asc' },
+  { key: { name: 'time', radixKey: o => o.timestamp, compare: (a, b) => compareValues(a.timestamp, b.timestamp) }, direction: 'asc' },
+]);
+
+const toDepthLevel = (level: PriceLevel): DepthLevel => ({
+  price: level.cents / 100,
+  quantity: level.quantity,
+  orders: level.orders.size,
+});
+
+// One symbol's limit order book with price-time priority. Events only
+// maintain the book; crossing orders are not matched, since executions
+// arrive as their own events the way exchange feeds report them.
+export const createOrderBook = (symbol: string, { venue = 'XNAS' }: OrderBookOptions = {}): OrderBook => {
+  const sides: Record<Side, BookSide> = {
+    buy: { levels: new Map(), prices: [] },
+    sell: { levels: new Map(), prices: [] },
+  };
+  const orders = new Map<string, RestingOrder>();
+  let executions = 0;
+
+  const rest = (order: RestingOrder) => {
+    const side = sides[order.side];
+    let level = side.levels.get(order.cents);
+    if (!level) {
+      level = { cents: order.cents, quantity: 0, orders: new Map() };
+      side.levels.set(order.cents, level);
+      side.prices.splice(lowerBound(side.prices, order.cents), 0, order.cents);
+    }
+    level.orders.set(order.id, order);
+    level.quantity += order.quantity;
+    orders.set(order.id, order);
+  };
+
+  const unrest = (order: RestingOrder) => {
+    const side = sides[order.side];
+    const level = side.levels.get(order.cents)!;
+    level.orders.delete(order.id);
+    level.quantity -= order.quantity;
+    if (level.orders.size === 0) {
+      side.levels.delete(order.cents);
+      side.prices.splice(lowerBound(side.prices, order.cents), 1);
+    }
+    orders.delete(order.id);
+  };
+
+  // Shrinks an order in place, keeping its place in the queue
+  const reduce = (order: RestingOrder, quantity: number) => {
+    if (quantity >= order.quantity) return unrest(order);
+    order.quantity -= quantity;
+    sides[order.side].levels.get(order.cents)!.quantity -= quantity;
+  };
+
+  const levelAt = (side: Side, index: number) => {
+    const { prices, levels } = sides[side];
+    const position = side === 'buy' ? prices.length - 1 - index : index;
+    return position >= 0 && position < prices.length ? levels.get(prices[position]) : undefined;
+  };
+
+  const validSize = (quantity: number) => Number.isInteger(quantity) && quantity > 0;
+  const validPrice = (price: number) => Number.isFinite(price) && toCents(price) > 0;
+
+  return {
+    symbol,
+    apply(event) {
+      if (event.type === 'add') {
+        if (event.symbol !== symbol) return { accepted: false, reason: `Order ${event.id} is for ${event.symbol}, not ${symbol}` };
+        if (orders.has(event.id)) return { accepted: false, reason: `Duplicate order id ${event.id}` };
+        if (!validPrice(event.price)) return { accepted: false, reason: `Invalid price ${event.price}` };
+        if (!validSize(event.quantity)) return { accepted: false, reason: `Invalid quantity ${event.quantity}` };
+        rest({ id: event.id, symbol, side: event.side, cents: toCents(event.price), quantity: event.quantity, timestamp: event.timestamp });
+        return { accepted: true };
+      }
+
+      const order = orders.get(event.id);
+      if (!order) return { accepted: false, reason: `Unknown order id ${event.id}` };
+
+      switch (event.type) {
+        case 'modify': {
+          const cents = event.price === undefined ? order.cents : toCents(event.price);
+          const quantity = event.quantity ?? order.quantity;
+          if (event.price !== undefined && !validPrice(event.price)) return { accepted: false, reason: `Invalid price ${event.price}` };
+          if (!validSize(quantity)) return { accepted: false, reason: `Invalid quantity ${quantity}` };
+          if (cents === order.cents && quantity <= order.quantity) {
+            reduce(order, order.quantity - quantity);
+          } else {
+            // Re-entering the queue sends the order to the back of its new level
+            unrest(order);
+            rest({ ...order, cents, quantity, timestamp: event.timestamp });
+          }
+          return { accepted: true };
+        }
+        case 'cancel': {
+          const quantity = event.quantity ?? order.quantity;
+          if (!validSize(quantity)) return { accepted: false, reason: `Invalid quantity ${quantity}` };
+          reduce(order, quantity);
+          return { accepted: true };
+        }
+        case 'execute': {
+          if (!validSize(event.quantity) || event.quantity > order.quantity) {
+            return { accepted: false, reason: `Cannot execute ${event.quantity} of ${order.quantity} resting on ${order.id}` };
+          }
+          reduce(order, event.quantity);
+          executions++;
+          const trade: Transaction = {
+            id: `${order.id}-${executions}`,
+            symbol,
+            price: order.cents / 100,
+            quantity: event.quantity,
+            // The incoming order that filled this one was on the other side
+            side: order.side === 'buy' ? 'sell' : 'buy',
+            venue,
+            conditions: event.quantity < 100 ? ['@', 'I'] : ['@'],
+            sequence: executions,
+            timestamp: event.timestamp,
+            displayTime: new Date(Number(event.timestamp / BigInt(1000000))).toLocaleTimeString(),
+          };
+          return { accepted: true, trade };
+        }
+      }
+    },
+    load(snapshot) {
+      sides.buy = { levels: new Map(), prices: [] };
+      sides.sell = { levels: new Map(), prices: [] };
+      orders.clear();
+      const sorted = radixSort(snapshot.filter(order => order.symbol === symbol), priorityKey).sorted;
+      sorted.forEach(({ ...order }) => {
+        const side = sides[order.side];
+        let level = side.levels.get(order.cents);
+        if (!level) {
+          // Ascending input, so new prices always go on the end
+          level = { cents: order.cents, quantity: 0, orders: new Map() };
+          side.levels.set(order.cents, level);
+          side.prices.push(order.cents);
+        }
+        level.orders.set(order.id, order);
+        level.quantity += order.quantity;
+        orders.set(order.id, order);
+      });
+    },
+    order: id => orders.get(id),
+    queue: (side, level = 0) => Array.from(levelAt(side, level)?.orders.values() ?? []),
+    top() {
+      const bid = levelAt('buy', 0);
+      const ask = levelAt('sell', 0);
+      const top: TopOfBook = { symbol, bid: bid && toDepthLevel(bid), ask: ask && toDepthLevel(ask) };
+      if (bid && ask) {
+        top.spread = (ask.cents - bid.cents) / 100;
+        top.mid = (ask.cents + bid.cents) / 200;
+      }
+      return top;
+    },
+    depth(levels = 10) {
+      const collect = (side: Side) => {
+        const result: DepthLevel[] = [];
+        for (let i = 0; i < levels; i++) {
+          const level = levelAt(side, i);
+          if (!level) break;
+          result.push(toDepthLevel(level));
+        }
+        return result;
+      };
+      return { symbol, bids: collect('buy'), asks: collect('sell') };
+    },
+    clear() {
+      sides.buy = { levels: new Map(), prices: [] };
+      sides.sell = { levels: new Map(), prices: [] };
+      orders.clear();
+    },
+    get size() {
+      return orders.size;
+    },
+  };
+};
+
+export interface OrderBooks {
+  apply(event: OrderEvent): ApplyResult;
+  book(symbol: string): OrderBook | undefined;
+  symbols(): string[];
+  load(orders: readonly RestingOrder[]): void;
+  clear(): void;
+}
+
+// Routes events to per-symbol books. Only adds carry a symbol, so the owner
+// of every resting order id is remembered.
+export const createOrderBooks = (options: OrderBookOptions = {}): OrderBooks => {
+  const books = new Map<string, OrderBook>();
+  const owners = new Map<string, OrderBook>();
+
+  const bookFor = (symbol: string) => {
+    let book = books.get(symbol);
+    if (!book) {
+      book = createOrderBook(symbol, options);
+      books.set(symbol, book);
+    }
+    return book;
+  };
+
+  return {
+    apply(event) {
+      const book = event.type === 'add' ? bookFor(event.symbol) : owners.get(event.id);
+      if (!book) return { accepted: false, reason: `Unknown order id ${event.id}` };
+      if (event.type === 'add' && owners.has(event.id)) return { accepted: false, reason: `Duplicate order id ${event.id}` };
+      const result = book.apply(event);
+      if (book.order(event.id)) owners.set(event.id, book);
+      else owners.delete(event.id);
+      return result;
+    },
+    book: symbol => books.get(symbol),
+    symbols: () => Array.from(books.keys()).sort(),
+    load(orders) {
+      books.clear();
+      owners.clear();
+      const bySymbol = new Map<string, RestingOrder[]>();
+      orders.forEach(order => {
+        const list = bySymbol.get(order.symbol) ?? [];
+        list.push(order);
+        bySymbol.set(order.symbol, list);
+      });
+      bySymbol.forEach((list, symbol) => {
+        const book = bookFor(symbol);
+        book.load(list);
+        list.forEach(order => owners.set(order.id, book));
+      });
+    },
+    clear() {
+      books.clear();
+      owners.clear();
+    },
+  };
+};
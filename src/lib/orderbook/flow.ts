@@ -0,0 +1,111 @@
+import { exponential, type Random } from '../random';
+import type { Side } from '../transaction';
+import type { OrderBooks } from './book';
+import type { OrderEvent } from './types';
+
+export interface OrderFlowOptions {
+  // Event mix; whatever remains after these shares is cancels
+  addShare?: number;
+  modifyShare?: number;
+  executeShare?: number;
+  meanOffsetTicks?: number; // mean distance of new orders from the mid, in cents
+  maxOrders?: number; // per symbol; past this, adds turn into cancels
+}
+
+export interface OrderFlow {
+  // Events around each symbol's current mid price, applied to the books as
+  // they are generated so later events see the orders earlier ones created
+  next(mids: ReadonlyMap<string, number>, count: number, timestamp: bigint): OrderEvent[];
+}
+
+const roundLot = (random: Random) => 100 * (1 + Math.floor(exponential(random, 0.5)));
+
+// Synthetic order flow for the demo dashboard: passive orders cluster near
+// the mid, executions hit the front of the best queue and orders left on the
+// wrong side of a moving mid are pulled, so the book stays uncrossed.
+export const createOrderFlow = (
+  books: OrderBooks,
+  random: Random,
+  { addShare = 0.6, modifyShare = 0.1, executeShare = 0.1, meanOffsetTicks = 6, maxOrders = 200 }: OrderFlowOptions = {}
+): OrderFlow => {
+  let nextId = 0;
+  // Ids this flow created that may still rest, per symbol
+  const live = new Map<string, string[]>();
+
+  const pickLive = (symbol: string) => {
+    const ids = live.get(symbol) ?? [];
+    while (ids.length > 0) {
+      const index = Math.floor(random() * ids.length);
+      const id = ids[index];
+      if (books.book(symbol)?.order(id)) return id;
+      // Filled or cancelled since; swap-remove and try again
+      ids[index] = ids[ids.length - 1];
+      ids.pop();
+    }
+    return undefined;
+  };
+
+  const pullStale = (symbol: string, mid: number, timestamp: bigint, events: OrderEvent[]) => {
+    const book = books.book(symbol);
+    if (!book) return;
+    const sides: [Side, (price: number) => boolean][] = [['buy', price => price >= mid], ['sell', price => price <= mid]];
+    sides.forEach(([side, stale]) => {
+      for (let best = book.queue(side); best.length > 0 && stale(best[0].cents / 100); best = book.queue(side)) {
+        best.forEach(order => {
+          const event: OrderEvent = { type: 'cancel', id: order.id, timestamp };
+          books.apply(event);
+          events.push(event);
+        });
+      }
+    });
+  };
+
+  return {
+    next(mids, count, timestamp) {
+      const symbols = Array.from(mids.keys());
+      const events: OrderEvent[] = [];
+      if (symbols.length === 0) return events;
+      symbols.forEach(symbol => pullStale(symbol, mids.get(symbol)!, timestamp, events));
+
+      for (let i = 0; i < count; i++) {
+        const symbol = symbols[Math.floor(random() * symbols.length)];
+        const mid = mids.get(symbol)!;
+        const full = (books.book(symbol)?.size ?? 0) >= maxOrders;
+        const roll = full ? 1 : random();
+        const existing = roll < addShare ? undefined : pickLive(symbol);
+        let event: OrderEvent;
+
+        if (!existing) {
+          const side: Side = random() < 0.5 ? 'buy' : 'sell';
+          const ticks = 1 + Math.floor(exponential(random, 1 / meanOffsetTicks));
+          const cents = Math.round(mid * 100) + (side === 'buy' ? -ticks : ticks);
+          if (cents <= 0) continue;
+          const id = `O${++nextId}`;
+          event = { type: 'add', id, symbol, side, price: cents / 100, quantity: roundLot(random), timestamp };
+          if (!live.has(symbol)) live.set(symbol, []);
+          live.get(symbol)!.push(id);
+        } else if (roll < addShare + modifyShare) {
+          const order = books.book(symbol)!.order(existing)!;
+          // Step one tick towards the mid, unless that would reach it
+          const cents = order.cents + (order.side === 'buy' ? 1 : -1);
+          const crosses = order.side === 'buy' ? cents >= mid * 100 : cents <= mid * 100;
+          event = random() < 0.5 || crosses
+            ? { type: 'modify', id: existing, quantity: Math.max(1, Math.round(order.quantity / 2)), timestamp }
+            : { type: 'modify', id: existing, price: cents / 100, timestamp };
+        } else if (roll < addShare + modifyShare + executeShare) {
+          // Price-time priority: the oldest order at the best price fills first
+          const side: Side = random() < 0.5 ? 'buy' : 'sell';
+          const [first] = books.book(symbol)!.queue(side);
+          if (!first) continue;
+          event = { type: 'execute', id: first.id, quantity: Math.min(first.quantity, roundLot(random)), timestamp };
+        } else {
+          event = { type: 'cancel', id: existing, timestamp };
+        }
+
+        books.apply(event);
+        events.push(event);
+      }
+      return events;
+    },
+  };
+};
@@ -0,0 +1,5 @@
+export type { ApplyResult, DepthLevel, DepthSnapshot, OrderEvent, RestingOrder, TopOfBook } from './types';
+export type { OrderBook, OrderBookOptions, OrderBooks } from './book';
+export { createOrderBook, createOrderBooks } from './book';
+export type { OrderFlow, OrderFlowOptions } from './flow';
+export { createOrderFlow } from './flow';
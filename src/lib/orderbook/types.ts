@@ -0,0 +1,46 @@
+import type { Side, Transaction } from '../transaction';
+
+// Order flow events, modelled on exchange depth-of-book feeds. Prices are in
+// dollars like Transaction.price; the book keeps them as integer cents.
+export type OrderEvent =
+  | { type: 'add'; id: string; symbol: string; side: Side; price: number; quantity: number; timestamp: bigint }
+  // A new price or a larger size loses time priority; a smaller size keeps it
+  | { type: 'modify'; id: string; price?: number; quantity?: number; timestamp: bigint }
+  // Without a quantity the whole remaining order is cancelled
+  | { type: 'cancel'; id: string; quantity?: number; timestamp: bigint }
+  // A fill against a resting order; it becomes a trade
+  | { type: 'execute'; id: string; quantity: number; timestamp: bigint };
+
+export interface RestingOrder {
+  id: string;
+  symbol: string;
+  side: Side; // buy orders rest on the bid, sell orders on the ask
+  cents: number;
+  quantity: number; // remaining shares
+  timestamp: bigint; // ns when the order gained its current priority
+}
+
+export type ApplyResult =
+  | { accepted: true; trade?: Transaction }
+  | { accepted: false; reason: string };
+
+export interface DepthLevel {
+  price: number;
+  quantity: number;
+  orders: number;
+}
+
+export interface TopOfBook {
+  symbol: string;
+  bid?: DepthLevel;
+  ask?: DepthLevel;
+  spread?: number;
+  mid?: number;
+}
+
+// Best level first on both sides
+export interface DepthSnapshot {
+  symbol: string;
+  bids: DepthLevel[];
+  asks: DepthLevel[];
+}
@@ -0,0 +1,56 @@
+// Sampling helpers over a uniform [0, 1) source, so callers can swap in a
+// seeded generator
+
+export type Random = () => number;
+
+// FNV-1a, so text seeds like "demo-2024" map to a 32-bit state
+const hashSeed = (seed: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32: small, fast and good enough for simulation; the same seed
+// always yields the same sequence
+export const createRandom = (seed: number | string): Random => {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal via Box-Muller
+export const normal = (random: Random) => {
+  const u = 1 - random(); // (0, 1], keeps log finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+// Exponential with the given rate (mean 1 / rate)
+export const exponential = (random: Random, rate: number) => -Math.log(1 - random()) / rate;
+
+// Sampler over indices 0..n-1 with P(i) proportional to 1 / (i + 1)^s;
+// s = 0 is uniform, s = 1 is classic Zipf
+export const zipf = (n: number, s: number) => {
+  const cumulative: number[] = [];
+  let total = 0;
+  for (let i = 0; i < n; i++) {
+    total += 1 / Math.pow(i + 1, s);
+    cumulative.push(total);
+  }
+  return (random: Random) => {
+    const target = random() * total;
+    let lo = 0, hi = n - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cumulative[mid] > target) hi = mid;
+      else lo = mid + 1;
+    }
+    return lo;
+  };
+};
@@ -0,0 +1,121 @@
+import { mergeSort, timestampKey } from './sorting';
+import type { Transaction } from './transaction';
+
+export type PlaybackSpeed = 1 | 10 | 100 | 'max';
+
+export const PLAYBACK_SPEEDS: PlaybackSpeed[] = [1, 10, 100, 'max'];
+
+export interface ReplayOptions {
+  batchSize?: number; // trades per emitted batch
+}
+
+export interface ReplayEngine {
+  readonly tape: readonly Transaction[]; // in timestamp order
+  readonly clock: bigint; // virtual ns since the epoch
+  readonly start: bigint;
+  readonly end: bigint;
+  readonly position: number; // index of the next trade to emit
+  readonly batchIndex: number; // index of the next batch
+  readonly batchCount: number;
+  readonly speed: PlaybackSpeed;
+  readonly done: boolean;
+  setSpeed(speed: PlaybackSpeed): void;
+  // Move the virtual clock forward by elapsed wall time scaled by the speed
+  // and return every batch that became due; at 'max' one batch per call
+  advance(elapsedMs: number): Transaction[][];
+  // Emit the next batch regardless of the clock
+  step(): Transaction[] | null;
+  // Jump to a time; playback resumes at the batch containing it
+  seek(time: bigint): void;
+  reset(): void;
+}
+
+const NANOS_PER_MS = 1000000;
+
+// Replays a tape on a virtual clock. Batches are fixed slices of the
+// timestamp-ordered tape, so timer jitter, pauses and speed changes never
+// change which trades are sorted together; two viewers of the same tape see
+// identical batches.
+export const createReplayEngine = (
+  recorded: readonly Transaction[],
+  { batchSize = 500 }: ReplayOptions = {}
+): ReplayEngine => {
+  const tape = mergeSort(recorded, timestampKey).sorted; // stable, so ties keep arrival order
+  const start = tape.length > 0 ? tape[0].timestamp : BigInt(0);
+  const end = tape.length > 0 ? tape[tape.length - 1].timestamp : BigInt(0);
+  const batchCount = Math.ceil(tape.length / batchSize);
+  let clock = start;
+  let position = 0;
+  let speed: PlaybackSpeed = 1;
+
+  const batchAt = (index: number) => tape.slice(index * batchSize, (index + 1) * batchSize);
+
+  const step = () => {
+    if (position >= tape.length) return null;
+    const batch = batchAt(position / batchSize);
+    position += batch.length;
+    const last = batch[batch.length - 1].timestamp;
+    if (last > clock) clock = last;
+    return batch;
+  };
+
+  const advance = (elapsedMs: number) => {
+    if (speed === 'max') {
+      const batch = step();
+      return batch ? [batch] : [];
+    }
+    clock += BigInt(Math.round(elapsedMs * speed * NANOS_PER_MS));
+    const due: Transaction[][] = [];
+    // A batch is due once the clock passes its last trade
+    while (position < tape.length) {
+      const last = tape[Math.min(tape.length, position + batchSize) - 1];
+      if (last.timestamp > clock) break;
+      due.push(step()!);
+    }
+    return due;
+  };
+
+  const seek = (time: bigint) => {
+    clock = time < start ? start : time > end ? end : time;
+    // First trade after the target, then back to its batch boundary
+    let lo = 0, hi = tape.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (tape[mid].timestamp <= clock) lo = mid + 1;
+      else hi = mid;
+    }
+    position = Math.floor(Math.min(lo, Math.max(0, tape.length - 1)) / batchSize) * batchSize;
+  };
+
+  return {
+    tape,
+    get clock() {
+      return clock;
+    },
+    start,
+    end,
+    get position() {
+      return position;
+    },
+    get batchIndex() {
+      return Math.ceil(position / batchSize);
+    },
+    batchCount,
+    get speed() {
+      return speed;
+    },
+    get done() {
+      return position >= tape.length;
+    },
+    setSpeed: (next) => {
+      speed = next;
+    },
+    advance,
+    step,
+    seek,
+    reset: () => {
+      clock = start;
+      position = 0;
+    },
+  };
+};
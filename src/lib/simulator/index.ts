@@ -0,0 +1,4 @@
+export type { MarketSimulator, SimulatorConfig, SimulatorOptions, SymbolState } from './simulator';
+export { DEFAULT_CONFIG, DEFAULT_START_PRICES, createMarketSimulator } from './simulator';
+export type { MarketPreset, MarketPresetInfo } from './presets';
+export { marketPresets } from './presets';
@@ -0,0 +1,52 @@
+import type { SimulatorConfig } from './simulator';
+
+export type MarketPreset = 'calm' | 'trending' | 'volatile' | 'newsDay';
+
+export interface MarketPresetInfo {
+  label: string;
+  description: string;
+  config: Partial<SimulatorConfig>;
+}
+
+export const marketPresets: Record<MarketPreset, MarketPresetInfo> = {
+  calm: {
+    label: 'Calm session',
+    description: 'Low volatility, steady arrivals, mild popularity skew',
+    config: { drift: 0.02, volatility: 0.15, zipfExponent: 0.8 },
+  },
+  trending: {
+    label: 'Trending market',
+    description: 'Strong upward drift with moderate volatility',
+    config: { drift: 2, volatility: 0.4, zipfExponent: 1 },
+  },
+  volatile: {
+    label: 'High volatility',
+    description: 'Wide price swings, frequent bursts and occasional jumps',
+    config: {
+      drift: 0,
+      volatility: 3,
+      zipfExponent: 1.2,
+      burstMultiplier: 5,
+      burstProbability: 0.01,
+      burstLength: 200,
+      jumpProbability: 0.0005,
+      jumpSize: 0.02,
+    },
+  },
+  newsDay: {
+    label: 'News day',
+    description: 'Heavy bursts, large jumps and trading halts on a few names',
+    config: {
+      drift: 0,
+      volatility: 1.5,
+      zipfExponent: 1.5,
+      burstMultiplier: 20,
+      burstProbability: 0.005,
+      burstLength: 500,
+      jumpProbability: 0.001,
+      jumpSize: 0.05,
+      haltProbability: 0.0002,
+      haltSeconds: 5,
+    },
+  },
+};
@@ -0,0 +1,173 @@
+import { STOCK_SYMBOLS, VENUES, generateQuantity } from '../generator';
+import { exponential, normal, zipf, type Random } from '../random';
+import { type Transaction } from '../transaction';
+
+export interface SimulatorConfig {
+  symbols: string[]; // in popularity order when zipfExponent > 0
+  startPrices: Record<string, number>; // symbols not listed start at $100
+  drift: number; // annualized GBM drift (mu)
+  volatility: number; // annualized GBM volatility (sigma)
+  zipfExponent: number; // symbol popularity skew; 0 is uniform
+  arrivalRate: number; // mean trades per second outside bursts
+  burstMultiplier: number; // arrival rate multiplier during a burst
+  burstProbability: number; // chance per trade of starting a burst
+  burstLength: number; // mean trades per burst
+  jumpProbability: number; // chance per trade of a price jump
+  jumpSize: number; // standard deviation of the log jump
+  haltProbability: number; // chance per trade of halting that symbol
+  haltSeconds: number; // halt duration in simulated seconds
+}
+
+export interface SymbolState {
+  symbol: string;
+  price: number;
+  lastTime: bigint; // ns of the last print
+  haltedUntil: bigint; // ns; trading resumes at this time
+}
+
+export interface MarketSimulator {
+  next(): Transaction;
+  batch(size: number): Transaction[];
+  // Change parameters without resetting prices or the clock
+  update(config: Partial<SimulatorConfig>): void;
+  snapshot(): (SymbolState & { halted: boolean })[];
+  readonly clock: bigint; // simulated ns since the Unix epoch
+}
+
+export const DEFAULT_START_PRICES: Record<string, number> = {
+  AAPL: 190, TSLA: 250, AMZN: 180, GOOGL: 170, MSFT: 420,
+  NVDA: 120, META: 500, NFLX: 650, AMD: 160, INTC: 30,
+};
+
+export const DEFAULT_CONFIG: SimulatorConfig = {
+  symbols: STOCK_SYMBOLS,
+  startPrices: DEFAULT_START_PRICES,
+  drift: 0.05,
+  volatility: 0.3,
+  zipfExponent: 1,
+  arrivalRate: 1000,
+  burstMultiplier: 1,
+  burstProbability: 0,
+  burstLength: 1,
+  jumpProbability: 0,
+  jumpSize: 0,
+  haltProbability: 0,
+  haltSeconds: 0,
+};
+
+// GBM time is measured in trading years
+const TRADING_SECONDS_PER_YEAR = 252 * 6.5 * 3600;
+const NANOS_PER_SECOND = 1e9;
+const NANOS_PER_MS = BigInt(1000000);
+
+export interface SimulatorOptions {
+  random?: Random;
+  startTime?: bigint; // ns; defaults to now
+}
+
+// Stateful market: each symbol follows its own geometric Brownian motion,
+// trades arrive as a Poisson process that switches into bursts, and symbols
+// are picked by Zipf popularity. Jumps gap the price; halts pause a symbol
+// and it reopens with a jump.
+export const createMarketSimulator = (
+  initial: Partial<SimulatorConfig> = {},
+  { random = Math.random, startTime = BigInt(Date.now()) * NANOS_PER_MS }: SimulatorOptions = {}
+): MarketSimulator => {
+  let config: SimulatorConfig = { ...DEFAULT_CONFIG, ...initial };
+  let pickSymbol = zipf(config.symbols.length, config.zipfExponent);
+  const states = new Map<string, SymbolState>();
+  let clock = startTime;
+  let sequence = 0;
+  let bursting = false;
+
+  const stateOf = (symbol: string) => {
+    let state = states.get(symbol);
+    if (!state) {
+      state = { symbol, price: config.startPrices[symbol] ?? 100, lastTime: clock, haltedUntil: BigInt(0) };
+      states.set(symbol, state);
+    }
+    return state;
+  };
+
+  const jump = (state: SymbolState) => {
+    state.price *= Math.exp(config.jumpSize * normal(random));
+  };
+
+  // Skip halted symbols; if every symbol is halted, fast-forward to the
+  // first reopening
+  const chooseSymbol = (): SymbolState => {
+    for (let attempt = 0; attempt < config.symbols.length * 4; attempt++) {
+      const state = stateOf(config.symbols[pickSymbol(random)]);
+      if (state.haltedUntil <= clock) return state;
+    }
+    const open = config.symbols.map(stateOf).filter(state => state.haltedUntil <= clock);
+    if (open.length > 0) return open[Math.floor(random() * open.length)];
+    const reopening = config.symbols.map(stateOf).reduce((a, b) => (b.haltedUntil < a.haltedUntil ? b : a));
+    clock = reopening.haltedUntil;
+    return reopening;
+  };
+
+  const next = (): Transaction => {
+    if (bursting ? random() < 1 / Math.max(1, config.burstLength) : random() < config.burstProbability) {
+      bursting = !bursting;
+    }
+    const rate = config.arrivalRate * (bursting ? config.burstMultiplier : 1);
+    clock += BigInt(Math.max(1, Math.round(exponential(random, rate) * NANOS_PER_SECOND)));
+
+    const state = chooseSymbol();
+    const wasHalted = state.haltedUntil > BigInt(0);
+    if (wasHalted) {
+      state.haltedUntil = BigInt(0);
+      jump(state); // reopening gap
+    }
+
+    const dt = Number(clock - state.lastTime) / NANOS_PER_SECOND / TRADING_SECONDS_PER_YEAR;
+    const { drift: mu, volatility: sigma } = config;
+    const previous = state.price;
+    state.price *= Math.exp((mu - (sigma * sigma) / 2) * dt + sigma * Math.sqrt(dt) * normal(random));
+    if (random() < config.jumpProbability) jump(state);
+    state.price = Math.max(0.01, state.price);
+    state.lastTime = clock;
+
+    const quantity = generateQuantity(random);
+    const conditions = ['@'];
+    if (quantity < 100) conditions.push('I');
+    if (bursting && random() < 0.3) conditions.push('F'); // sweeps cluster in bursts
+    if (wasHalted) conditions.push('O'); // reopening print
+
+    if (random() < config.haltProbability) {
+      state.haltedUntil = clock + BigInt(Math.round(config.haltSeconds * NANOS_PER_SECOND));
+    }
+
+    const ms = Number(clock / NANOS_PER_MS);
+    return {
+      id: random().toString(36).substr(2, 9),
+      symbol: state.symbol,
+      price: Math.round(state.price * 100) / 100,
+      quantity,
+      // Tick rule: upticks are buyer-initiated
+      side: state.price > previous || (state.price === previous && random() < 0.5) ? 'buy' : 'sell',
+      venue: VENUES[Math.floor(random() * VENUES.length)],
+      conditions,
+      sequence: ++sequence,
+      timestamp: clock,
+      displayTime: new Date(ms).toLocaleTimeString(),
+    };
+  };
+
+  return {
+    next,
+    batch: (size) => Array.from({ length: size }, next),
+    update: (changes) => {
+      config = { ...config, ...changes };
+      if (changes.symbols || changes.zipfExponent !== undefined) {
+        pickSymbol = zipf(config.symbols.length, config.zipfExponent);
+      }
+    },
+    snapshot: () =>
+      config.symbols.map(stateOf).map(state => ({ ...state, halted: state.haltedUntil > clock })),
+    get clock() {
+      return clock;
+    },
+  };
+};
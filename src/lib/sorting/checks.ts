@@ -0,0 +1,27 @@
+import { toNanos, type Transaction } from '../transaction';
+import { timestampKey } from './keys';
+import type { Sorter } from './types';
+
+// Feeds two trades 1ns apart in reverse order at a realistic epoch and reports
+// whether the sorter puts the earlier one first. Fails for any sorter whose
+// keys round through a float64.
+export const checkNanosecondOrdering = (sorter: Sorter<Transaction>): boolean => {
+  const base = toNanos(Date.UTC(2024, 5, 21, 13, 30), 123456);
+  const trade = (id: string, timestamp: bigint): Transaction => ({
+    id,
+    symbol: 'AAPL',
+    price: 190,
+    quantity: 100,
+    side: 'buy',
+    venue: 'XNAS',
+    conditions: ['@'],
+    sequence: 0,
+    timestamp,
+    displayTime: '',
+  });
+  const earlier = trade('earlier', base);
+  const later = trade('later', base + BigInt(1));
+
+  const { sorted } = sorter.sort([later, earlier], timestampKey);
+  return sorted.length === 2 && sorted[0] === earlier && sorted[1] === later;
+};
@@ -0,0 +1,51 @@
+import type { KeyExtractor, SortField } from './types';
+
+// Combines several keys into one extractor. Comparison sorters use the
+// compound `compare`; radix sorters see `fields` and run one stable pass per
+// key, least significant first. `radixKey` is the primary field's and is only
+// meant for display.
+export const compositeKey = <T>(fields: SortField<T>[]): KeyExtractor<T> => {
+  if (fields.length === 0) throw new Error('A composite sort needs at least one key');
+  const [primary] = fields;
+  return {
+    name: fields.map(({ key, direction }) => (direction === 'desc' ? `-${key.name}` : key.name)).join(','),
+    radixKey: primary.key.radixKey,
+    fields,
+    compare: (a, b) => {
+      for (const { key, direction } of fields) {
+        const order = key.compare(a, b);
+        if (order !== 0) return direction === 'desc' ? -order : order;
+      }
+      return 0;
+    },
+  };
+};
+
+// Runs a stable single-key sort once per field, least significant first.
+// Descending fields are sorted as reverse -> ascending -> reverse, which keeps
+// ties in their original order just like the compound comparator does.
+export const sortByFields = <T>(
+  data: readonly T[],
+  fields: SortField<T>[],
+  sortOne: (items: T[], key: KeyExtractor<T>) => T[]
+): T[] => {
+  let current = [...data];
+  for (let f = fields.length - 1; f >= 0; f--) {
+    const { key, direction } = fields[f];
+    current = direction === 'desc' ? sortOne(current.reverse(), key).reverse() : sortOne(current, key);
+  }
+  return current;
+};
+
+export const sortByFieldsAsync = async <T>(
+  data: readonly T[],
+  fields: SortField<T>[],
+  sortOne: (items: T[], key: KeyExtractor<T>) => Promise<T[]>
+): Promise<T[]> => {
+  let current = [...data];
+  for (let f = fields.length - 1; f >= 0; f--) {
+    const { key, direction } = fields[f];
+    current = direction === 'desc' ? (await sortOne(current.reverse(), key)).reverse() : await sortOne(current, key);
+  }
+  return current;
+};
@@ -0,0 +1,51 @@
+import type { KeyExtractor, SortResult } from './types';
+
+// Largest key span counting sort will allocate a table for
+export const MAX_COUNTING_RANGE = 1 << 24;
+
+// Span of integer keys in `data`, i.e. the count table counting sort would
+// need; Infinity when a key is a bigint or not an integer
+export const countingRange = <T>(data: readonly T[], key: KeyExtractor<T>): number => {
+  let min = Infinity, max = -Infinity;
+  for (let i = 0; i < data.length; i++) {
+    const value = key.radixKey(data[i]);
+    if (typeof value !== 'number' || !Number.isSafeInteger(value)) return Infinity;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return data.length > 0 ? max - min + 1 : 0;
+};
+
+// Counting sort over small integer keys (e.g. price in cents): one count
+// table of max - min + 1 slots, then a stable placement pass. Keys must be
+// numbers in a dense range; see KeyExtractor.dense. Throws a RangeError when
+// the range exceeds MAX_COUNTING_RANGE; check with countingRange first.
+export const countingSort = <T>(arr: readonly T[], key: KeyExtractor<T>): SortResult<T> => {
+  const startTime = performance.now();
+  const n = arr.length;
+  const keys = new Float64Array(n);
+  let min = Infinity, max = -Infinity;
+  for (let i = 0; i < n; i++) {
+    const value = key.radixKey(arr[i]);
+    if (typeof value !== 'number') throw new TypeError(`Counting sort needs number keys; "${key.name}" is bigint`);
+    if (!Number.isSafeInteger(value)) throw new RangeError(`Counting sort needs integer keys; "${key.name}" has ${value}`);
+    keys[i] = value;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+
+  const range = n > 0 ? max - min + 1 : 0;
+  if (range > MAX_COUNTING_RANGE) {
+    throw new RangeError(`Counting sort needs a key range under ${MAX_COUNTING_RANGE}; "${key.name}" spans ${range}`);
+  }
+
+  const starts = new Uint32Array(range + 1);
+  for (let i = 0; i < n; i++) starts[keys[i] - min + 1]++;
+  for (let k = 0; k < range; k++) starts[k + 1] += starts[k];
+
+  const sorted = new Array<T>(n);
+  for (let i = 0; i < n; i++) sorted[starts[keys[i] - min]++] = arr[i];
+  const endTime = performance.now();
+
+  return { sorted, time: endTime - startTime, algorithm: 'counting', key: key.name, size: n };
+};
@@ -0,0 +1,37 @@
+import type { KeyExtractor, SortResult } from './types';
+
+// Restore the max-heap property for the subtree rooted at `root` within a[lo, lo + size)
+export const siftDown = <T>(a: T[], lo: number, root: number, size: number, compare: (x: T, y: T) => number) => {
+  const value = a[lo + root];
+  let parent = root;
+  while (2 * parent + 1 < size) {
+    let child = 2 * parent + 1;
+    if (child + 1 < size && compare(a[lo + child], a[lo + child + 1]) < 0) child++;
+    if (compare(value, a[lo + child]) >= 0) break;
+    a[lo + parent] = a[lo + child];
+    parent = child;
+  }
+  a[lo + parent] = value;
+};
+
+// In-place heap sort of a[lo, hi); shared with introsort's depth fallback
+export const heapSortRange = <T>(a: T[], lo: number, hi: number, compare: (x: T, y: T) => number) => {
+  const size = hi - lo;
+  for (let root = Math.floor(size / 2) - 1; root >= 0; root--) siftDown(a, lo, root, size, compare);
+  for (let end = size - 1; end > 0; end--) {
+    const top = a[lo];
+    a[lo] = a[lo + end];
+    a[lo + end] = top;
+    siftDown(a, lo, 0, end, compare);
+  }
+};
+
+// Heap sort: O(n log n) worst case, in place, not stable
+export const heapSort = <T>(arr: readonly T[], key: KeyExtractor<T>): SortResult<T> => {
+  const startTime = performance.now();
+  const sorted = [...arr];
+  heapSortRange(sorted, 0, sorted.length, key.compare);
+  const endTime = performance.now();
+
+  return { sorted, time: endTime - startTime, algorithm: 'heap', key: key.name, size: arr.length };
+};
@@ -0,0 +1,50 @@
+export type {
+  KeyExtractor,
+  RadixEntry,
+  RadixKey,
+  RadixSortResult,
+  SortDirection,
+  SortField,
+  SortResult,
+  Sorter,
+} from './types';
+export { PREPROCESS_SAMPLE } from './types';
+export type { SortKey, SortSpec } from './keys';
+export {
+  exactPriceKey,
+  floatKey,
+  isSortKey,
+  notionalKey,
+  parseSortSpecs,
+  priceKey,
+  quantityKey,
+  symbolKey,
+  timestampKey,
+  transactionKeys,
+  transactionSortKey,
+} from './keys';
+export { compositeKey, sortByFields, sortByFieldsAsync } from './composite';
+export type { RadixBits } from './radix-kernel';
+export { floatToWords, radixKeysFit } from './radix-kernel';
+export type { RadixSortOptions } from './radix';
+export { createRadixSorter, preprocessForRadix, radixSort, radixSorter } from './radix';
+export { compareAscii, msdRadixSort } from './string-radix';
+export { mergeSort, mergeSorter } from './merge';
+export { nativeSort } from './native';
+export { timSort } from './timsort';
+export { introSort } from './introsort';
+export { heapSort } from './heapsort';
+export { MAX_COUNTING_RANGE, countingRange, countingSort } from './counting';
+export type { SortAlgorithm } from './registry';
+export { getAlgorithm, listAlgorithms, registerAlgorithm } from './registry';
+export type { ParallelSortResult, RadixWorkerLike, RadixWorkerPool, RadixWorkerPoolOptions } from './parallel';
+export { createRadixWorkerPool, parallelRadixSort, supportsSharedMemory } from './parallel';
+export { checkNanosecondOrdering } from './checks';
+export type { VerificationCheck, VerificationFailure, VerifyOptions } from './verify';
+export { verifyKeyConsistency, verifySort } from './verify';
+export type { PropertyCase, PropertyFailure, PropertyResult, PropertySuiteOptions } from './properties';
+export { PROPERTY_KEYS, edgeCases, randomCase, runPropertySuite } from './properties';
+export type { SortedWindow, SortedWindowOptions, WindowUpdate } from './window';
+export { createSortedWindow, kWayMerge } from './window';
+export type { SelectMethod } from './select';
+export { heapTopK, quantile, quantileBy, quantileRank, quickselect, radixSelect, supportsRadixSelect, topK } from './select';
@@ -0,0 +1,74 @@
+import { heapSortRange } from './heapsort';
+import type { KeyExtractor, SortResult } from './types';
+
+const INSERTION_THRESHOLD = 16;
+
+const insertionSortRange = <T>(a: T[], lo: number, hi: number, compare: (x: T, y: T) => number) => {
+  for (let i = lo + 1; i < hi; i++) {
+    const current = a[i];
+    let j = i - 1;
+    while (j >= lo && compare(a[j], current) > 0) {
+      a[j + 1] = a[j];
+      j--;
+    }
+    a[j + 1] = current;
+  }
+};
+
+const swap = <T>(a: T[], i: number, j: number) => {
+  const tmp = a[i];
+  a[i] = a[j];
+  a[j] = tmp;
+};
+
+// Median-of-three quicksort that switches to heap sort once recursion goes
+// deeper than 2 log2(n), so adversarial inputs stay O(n log n)
+const introSortRange = <T>(a: T[], lo: number, hi: number, depth: number, compare: (x: T, y: T) => number) => {
+  while (hi - lo > INSERTION_THRESHOLD) {
+    if (depth === 0) {
+      heapSortRange(a, lo, hi, compare);
+      return;
+    }
+    depth--;
+
+    const mid = lo + ((hi - lo) >> 1);
+    if (compare(a[mid], a[lo]) < 0) swap(a, mid, lo);
+    if (compare(a[hi - 1], a[lo]) < 0) swap(a, hi - 1, lo);
+    if (compare(a[hi - 1], a[mid]) < 0) swap(a, hi - 1, mid);
+    const pivot = a[mid];
+
+    // Hoare partition
+    let i = lo, j = hi - 1;
+    while (i <= j) {
+      while (compare(a[i], pivot) < 0) i++;
+      while (compare(a[j], pivot) > 0) j--;
+      if (i <= j) {
+        swap(a, i, j);
+        i++;
+        j--;
+      }
+    }
+
+    // Recurse into the smaller side, loop on the larger
+    if (j + 1 - lo < hi - i) {
+      introSortRange(a, lo, j + 1, depth, compare);
+      lo = i;
+    } else {
+      introSortRange(a, i, hi, depth, compare);
+      hi = j + 1;
+    }
+  }
+  insertionSortRange(a, lo, hi, compare);
+};
+
+// Introsort: quicksort speed with a heap sort safety net; not stable
+export const introSort = <T>(arr: readonly T[], key: KeyExtractor<T>): SortResult<T> => {
+  const startTime = performance.now();
+  const sorted = [...arr];
+  if (sorted.length > 1) {
+    introSortRange(sorted, 0, sorted.length, 2 * Math.floor(Math.log2(sorted.length)), key.compare);
+  }
+  const endTime = performance.now();
+
+  return { sorted, time: endTime - startTime, algorithm: 'introsort', key: key.name, size: arr.length };
+};
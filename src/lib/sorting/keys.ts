@@ -0,0 +1,102 @@
+import { notionalCents, type Transaction } from '../transaction';
+import { floatToWords, joinWords } from './radix-kernel';
+import { compareAscii, packStringPrefix, packStringWords } from './string-radix';
+import { compositeKey } from './composite';
+import type { KeyExtractor, SortDirection } from './types';
+
+export type SortKey = 'price' | 'exactPrice' | 'quantity' | 'notional' | 'symbol' | 'timestamp';
+
+const compareValues = <V extends number | string | bigint>(a: V, b: V) => (a < b ? -1 : a > b ? 1 : 0);
+
+// Convert price to integer cents. Rounding (not flooring) keeps prices like
+// 0.29 from landing on 28.999... cents; comparisons use the same cents so
+// radix and comparison sorts agree.
+const toCents = (t: Transaction) => Math.round(t.price * 100);
+
+export const priceKey: KeyExtractor<Transaction> = {
+  name: 'price',
+  radixKey: toCents,
+  dense: true,
+  compare: (a, b) => compareValues(toCents(a), toCents(b)),
+};
+
+// NaN compares greater than every number, matching floatToWords
+const compareFloats = (a: number, b: number) =>
+  Number.isNaN(a) ? (Number.isNaN(b) ? 0 : 1) : Number.isNaN(b) ? -1 : compareValues(a, b);
+
+// Float key kind: sorts any float64 field exactly, including negative values
+// (P&L, price changes, spreads) and sub-cent ticks, via the IEEE-754 sign flip
+export const floatKey = <T>(name: string, get: (item: T) => number): KeyExtractor<T> => ({
+  name,
+  radixKey: (item) => {
+    const [hi, lo] = floatToWords(get(item));
+    return joinWords(hi, lo);
+  },
+  radixWords: (item) => floatToWords(get(item)),
+  compare: (a, b) => compareFloats(get(a), get(b)),
+});
+
+export const exactPriceKey = floatKey<Transaction>('exactPrice', (t) => t.price);
+
+export const quantityKey: KeyExtractor<Transaction> = {
+  name: 'quantity',
+  radixKey: (t) => t.quantity,
+  dense: true,
+  compare: (a, b) => compareValues(a.quantity, b.quantity),
+};
+
+// Price x size in integer cents, so both sorter families see the same value
+export const notionalKey: KeyExtractor<Transaction> = {
+  name: 'notional',
+  radixKey: notionalCents,
+  compare: (a, b) => compareValues(notionalCents(a), notionalCents(b)),
+};
+
+export const symbolKey: KeyExtractor<Transaction> = {
+  name: 'symbol',
+  // Pack the leading bytes of the symbol; option and future symbols run
+  // longer, so radix sorters finish on the full string
+  radixKey: (t) => packStringPrefix(t.symbol),
+  radixWords: (t) => packStringWords(t.symbol),
+  stringKey: (t) => t.symbol,
+  compare: (a, b) => compareAscii(a.symbol, b.symbol),
+};
+
+export const timestampKey: KeyExtractor<Transaction> = {
+  name: 'timestamp',
+  // Full 64-bit nanosecond value; radix sorters split it into hi/lo words
+  radixKey: (t) => t.timestamp,
+  compare: (a, b) => compareValues(a.timestamp, b.timestamp),
+};
+
+export const transactionKeys: Record<SortKey, KeyExtractor<Transaction>> = {
+  price: priceKey,
+  exactPrice: exactPriceKey,
+  quantity: quantityKey,
+  notional: notionalKey,
+  symbol: symbolKey,
+  timestamp: timestampKey,
+};
+
+// Serializable form of a transaction ordering, as built in the UI
+export interface SortSpec {
+  key: SortKey;
+  direction: SortDirection;
+}
+
+// Resolve a sort spec to an extractor; a single ascending key stays plain
+export const transactionSortKey = (specs: SortSpec[]): KeyExtractor<Transaction> => {
+  if (specs.length === 1 && specs[0].direction === 'asc') return transactionKeys[specs[0].key];
+  return compositeKey(specs.map(({ key, direction }) => ({ key: transactionKeys[key], direction })));
+};
+
+export const isSortKey = (name: string): name is SortKey => name in transactionKeys;
+
+// Parse the text form used by composite key names, e.g. "symbol,-price,timestamp"
+export const parseSortSpecs = (text: string): SortSpec[] =>
+  text.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+    const direction: SortDirection = part.startsWith('-') ? 'desc' : 'asc';
+    const key = part.replace(/^[-+]/, '');
+    if (!isSortKey(key)) throw new Error(`Unknown sort key: ${key}`);
+    return { key, direction };
+  });
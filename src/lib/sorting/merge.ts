@@ -0,0 +1,43 @@
+import type { KeyExtractor, SortResult, Sorter } from './types';
+
+// Top-down merge sort; stable because ties take from the left run
+export const mergeSort = <T>(arr: readonly T[], key: KeyExtractor<T>): SortResult<T> => {
+  const startTime = performance.now();
+
+  const merge = (left: T[], right: T[]): T[] => {
+    const result: T[] = [];
+    let i = 0, j = 0;
+
+    while (i < left.length && j < right.length) {
+      if (key.compare(left[i], right[j]) <= 0) {
+        result.push(left[i]);
+        i++;
+      } else {
+        result.push(right[j]);
+        j++;
+      }
+    }
+
+    return result.concat(left.slice(i)).concat(right.slice(j));
+  };
+
+  const sort = (array: T[]): T[] => {
+    if (array.length <= 1) return array;
+
+    const mid = Math.floor(array.length / 2);
+    const left = sort(array.slice(0, mid));
+    const right = sort(array.slice(mid));
+
+    return merge(left, right);
+  };
+
+  const sorted = sort([...arr]);
+  const endTime = performance.now();
+
+  return { sorted, time: endTime - startTime, algorithm: 'merge', key: key.name, size: arr.length };
+};
+
+export const mergeSorter = {
+  name: 'merge',
+  sort: mergeSort,
+} satisfies Sorter<unknown>;
@@ -0,0 +1,10 @@
+import type { KeyExtractor, SortResult } from './types';
+
+// The engine's Array.prototype.sort (stable since ES2019; Timsort in V8)
+export const nativeSort = <T>(arr: readonly T[], key: KeyExtractor<T>): SortResult<T> => {
+  const startTime = performance.now();
+  const sorted = [...arr].sort(key.compare);
+  const endTime = performance.now();
+
+  return { sorted, time: endTime - startTime, algorithm: 'native', key: key.name, size: arr.length };
+};
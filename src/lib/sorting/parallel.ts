@@ -0,0 +1,232 @@
+import { buildHistogram, loadKeys, passCount, prefixSum, radixKeysFit, radixSize, scatter, type RadixBits } from './radix-kernel';
+import { sortByFieldsAsync } from './composite';
+import { mergeSort } from './merge';
+import { finishPrefixTies } from './string-radix';
+import type { KeyExtractor, SortField, SortResult } from './types';
+
+// Shared data layout for one sort: the hi/lo key words are read-only, the two
+// index arrays are ping-ponged between passes and each worker owns one
+// histogram of 2^bits slots.
+export interface RadixBuffers {
+  keysHi: ArrayBufferLike;
+  keysLo: ArrayBufferLike;
+  indexA: ArrayBufferLike;
+  indexB: ArrayBufferLike;
+  histograms: ArrayBufferLike;
+}
+
+export type WorkerRequest =
+  | { type: 'load'; buffers: RadixBuffers; bits: RadixBits; worker: number; lo: number; hi: number }
+  | { type: 'histogram' | 'scatter'; pass: number; source: 'a' | 'b' };
+
+export type WorkerResponse =
+  | { type: 'done'; worker: number }
+  | { type: 'error'; message: string }; // e.g. a pass sent before 'load'
+
+// The subset of the Web Worker API the pool relies on, so Node callers can
+// plug in a worker_threads adapter
+export interface RadixWorkerLike {
+  postMessage: (message: WorkerRequest) => void;
+  onmessage: ((event: { data: WorkerResponse }) => void) | null;
+  // A worker that fails to load or throws; either one fails the pool
+  onerror?: ((event: { message?: string }) => void) | null;
+  onmessageerror?: ((event: unknown) => void) | null;
+  terminate: () => void;
+}
+
+export interface ParallelSortResult<T> extends SortResult<T> {
+  workers: number; // 0 when the keys did not fit and merge sort ran instead
+  shared: boolean; // false when the passes ran in-thread without SharedArrayBuffer
+}
+
+export interface RadixWorkerPoolOptions {
+  spawn?: () => RadixWorkerLike;
+  bits?: RadixBits;
+}
+
+export interface RadixWorkerPool {
+  size: number;
+  shared: boolean;
+  // Rejects if a worker errors; the pool is then terminated and every later
+  // sort rejects too
+  sort: <T>(data: readonly T[], key: KeyExtractor<T>) => Promise<ParallelSortResult<T>>;
+  terminate: () => void;
+}
+
+const spawnBrowserWorker = (): RadixWorkerLike =>
+  new Worker(new URL('./radix.worker.ts', import.meta.url)) as unknown as RadixWorkerLike;
+
+export const supportsSharedMemory = () =>
+  typeof SharedArrayBuffer !== 'undefined' &&
+  (typeof crossOriginIsolated === 'undefined' || crossOriginIsolated);
+
+const allocate = (bytes: number, shared: boolean): ArrayBufferLike =>
+  shared ? new SharedArrayBuffer(bytes) : new ArrayBuffer(bytes);
+
+// Split [0, n) into `parts` contiguous chunks
+const chunkBounds = (n: number, parts: number, part: number) => {
+  const size = Math.ceil(n / parts);
+  return { lo: Math.min(n, part * size), hi: Math.min(n, (part + 1) * size) };
+};
+
+export const createRadixWorkerPool = (
+  size: number,
+  { spawn, bits = 8 }: RadixWorkerPoolOptions = {}
+): RadixWorkerPool => {
+  const canSpawn = spawn !== undefined || typeof Worker !== 'undefined';
+  const shared = canSpawn && supportsSharedMemory();
+  const workers = shared ? Array.from({ length: size }, spawn ?? spawnBrowserWorker) : [];
+  const pending: { resolve: () => void; reject: (error: Error) => void }[] = [];
+  let failure: Error | null = null;
+
+  const terminate = () => workers.forEach(worker => worker.terminate());
+
+  // Nothing else would settle the outstanding dispatches
+  const fail = (error: Error) => {
+    if (failure) return;
+    failure = error;
+    terminate();
+    pending.splice(0).forEach(waiter => waiter?.reject(error));
+  };
+
+  // Replies are matched to the worker that sent them, not to what it claims
+  workers.forEach((worker, w) => {
+    worker.onmessage = ({ data }) => {
+      if (data.type === 'error') return fail(new Error(`Radix worker ${w} failed: ${data.message}`));
+      const waiter = pending[w];
+      delete pending[w];
+      waiter?.resolve();
+    };
+    worker.onerror = event => fail(new Error(`Radix worker failed${event?.message ? `: ${event.message}` : ''}`));
+    worker.onmessageerror = () => fail(new Error('Radix worker sent a message that could not be read'));
+  });
+
+  const dispatch = (messages: WorkerRequest[]) =>
+    Promise.all(
+      workers.map(
+        (worker, w) =>
+          new Promise<void>((resolve, reject) => {
+            if (failure) return reject(failure);
+            pending[w] = { resolve, reject };
+            worker.postMessage(messages[w] ?? messages[0]);
+          })
+      )
+    );
+
+  // Sorts share the workers, so run them one at a time
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const run = async <T>(data: readonly T[], key: KeyExtractor<T>): Promise<ParallelSortResult<T>> => {
+    const startTime = performance.now();
+    const n = data.length;
+    const radix = radixSize(bits);
+    const buffers: RadixBuffers = {
+      keysHi: allocate(n * Uint32Array.BYTES_PER_ELEMENT, shared),
+      keysLo: allocate(n * Uint32Array.BYTES_PER_ELEMENT, shared),
+      indexA: allocate(n * Uint32Array.BYTES_PER_ELEMENT, shared),
+      indexB: allocate(n * Uint32Array.BYTES_PER_ELEMENT, shared),
+      histograms: allocate(size * radix * Uint32Array.BYTES_PER_ELEMENT, shared),
+    };
+    const keysHi = new Uint32Array(buffers.keysHi);
+    const keysLo = new Uint32Array(buffers.keysLo);
+    const indexA = new Uint32Array(buffers.indexA);
+    const indexB = new Uint32Array(buffers.indexB);
+    const histograms = new Uint32Array(buffers.histograms);
+    loadKeys(data, key, keysHi, keysLo, indexA);
+
+    const passes = n > 1 ? passCount(keysHi, keysLo, bits) : 0;
+    if (shared) {
+      await dispatch(
+        workers.map((_, w) => ({ type: 'load' as const, buffers, bits, worker: w, ...chunkBounds(n, size, w) }))
+      );
+    }
+
+    let source: 'a' | 'b' = 'a';
+    for (let pass = 0; pass < passes; pass++) {
+      const [src, dst] = source === 'a' ? [indexA, indexB] : [indexB, indexA];
+      if (shared) {
+        await dispatch([{ type: 'histogram', pass, source }]);
+      } else {
+        for (let w = 0; w < size; w++) {
+          const { lo, hi } = chunkBounds(n, size, w);
+          buildHistogram(keysHi, keysLo, src, lo, hi, pass, bits, histograms, w * radix);
+        }
+      }
+      // Every key shares this digit, so the pass would be a plain copy
+      if (!prefixSum(histograms, size, bits)) continue;
+      if (shared) {
+        await dispatch([{ type: 'scatter', pass, source }]);
+      } else {
+        for (let w = 0; w < size; w++) {
+          const { lo, hi } = chunkBounds(n, size, w);
+          scatter(keysHi, keysLo, src, dst, lo, hi, pass, bits, histograms, w * radix);
+        }
+      }
+      source = source === 'a' ? 'b' : 'a';
+    }
+
+    const order = source === 'a' ? indexA : indexB;
+    // String keys were only sorted on their packed prefix
+    if (key.stringKey && n > 1) finishPrefixTies(data.map(key.stringKey), order, keysHi, keysLo);
+    const sorted = Array.from(order, index => data[index]);
+    const endTime = performance.now();
+    return {
+      sorted,
+      time: endTime - startTime,
+      algorithm: 'parallel-radix',
+      key: key.name,
+      size: n,
+      workers: size,
+      shared,
+    };
+  };
+
+  // One pooled sort per field, least significant first
+  const runComposite = async <T>(
+    data: readonly T[],
+    key: KeyExtractor<T>,
+    fields: SortField<T>[]
+  ): Promise<ParallelSortResult<T>> => {
+    const startTime = performance.now();
+    const sorted = await sortByFieldsAsync(data, fields, async (items, field) => (await run(items, field)).sorted);
+    const endTime = performance.now();
+    return {
+      sorted,
+      time: endTime - startTime,
+      algorithm: 'parallel-radix',
+      key: key.name,
+      size: data.length,
+      workers: size,
+      shared,
+    };
+  };
+
+  return {
+    size,
+    shared,
+    sort: (data, key) => {
+      // Same guard as the registry's radix sorters: negative or fractional
+      // integer keys would come out misordered, so sort those serially
+      if (!radixKeysFit(data, key)) return Promise.resolve({ ...mergeSort(data, key), workers: 0, shared: false });
+      const result = queue.then(() => (key.fields ? runComposite(data, key, key.fields) : run(data, key)));
+      queue = result.catch(() => undefined);
+      return result;
+    },
+    terminate,
+  };
+};
+
+// One-off helper: spin up a pool, sort, and tear it down
+export const parallelRadixSort = async <T>(
+  data: readonly T[],
+  key: KeyExtractor<T>,
+  workers = 4,
+  options?: RadixWorkerPoolOptions
+): Promise<ParallelSortResult<T>> => {
+  const pool = createRadixWorkerPool(workers, options);
+  try {
+    return await pool.sort(data, key);
+  } finally {
+    pool.terminate();
+  }
+};
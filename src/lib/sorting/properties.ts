@@ -0,0 +1,218 @@
+import { createRandom, type Random } from '../random';
+import type { Side, Transaction } from '../transaction';
+import { parseSortSpecs, transactionKeys, transactionSortKey } from './keys';
+import { radixKeysFit } from './radix-kernel';
+import { listAlgorithms, type SortAlgorithm } from './registry';
+import type { KeyExtractor } from './types';
+import { verifyKeyConsistency, verifySort, type VerificationFailure } from './verify';
+
+// Property-based checks for every registered sorter: for many generated
+// inputs, the output must be a sorted permutation of the input, and stable
+// for algorithms that claim stability. Failing inputs are shrunk to a
+// minimal counterexample.
+
+export interface PropertyCase {
+  name: string;
+  data: Transaction[];
+}
+
+export interface PropertyFailure {
+  algorithm: string;
+  key: string;
+  case: string;
+  failure: VerificationFailure | { check: 'error'; index: number; message: string };
+  counterexample: Transaction[]; // shrunk input that still fails
+}
+
+export interface PropertyResult {
+  algorithm: string;
+  key: string;
+  passed: number;
+  skipped: number; // inputs the algorithm declines by design, e.g. wide counting ranges or negative radix keys
+  failures: PropertyFailure[];
+}
+
+export interface PropertySuiteOptions {
+  seed?: string;
+  runs?: number; // random inputs per key, on top of the edge cases
+  maxSize?: number;
+  algorithms?: SortAlgorithm[];
+  keys?: string[]; // sort specs such as "price" or "symbol,-price"
+}
+
+// Default keys: every single key plus composites that mix string, float,
+// bigint and descending fields
+export const PROPERTY_KEYS = [...Object.keys(transactionKeys), '-timestamp', 'symbol,-price', 'quantity,-notional,timestamp'];
+
+// Symbols of every length, including ones longer than the 8-byte radix prefix
+const SYMBOLS = ['A', 'AA', 'AAPL', 'AAPLW', 'BRK.B', 'GOOGL', 'GOOGLE', 'Z', 'ZZZZZZZZZ', 'ZZZZZZZZZZZZ'];
+const VENUES = ['XNAS', 'XNYS', 'ARCX', 'BATS'];
+const EPOCH_NS = BigInt(Date.UTC(2024, 0, 2, 14, 30)) * BigInt(1000000);
+const MAX_TIMESTAMP = (BigInt(1) << BigInt(63)) - BigInt(1);
+
+let nextId = 0;
+const trade = (fields: Partial<Transaction>): Transaction => ({
+  id: `P${++nextId}`,
+  symbol: 'AAPL',
+  price: 100,
+  quantity: 100,
+  side: 'buy',
+  venue: 'XNAS',
+  conditions: ['@'],
+  sequence: nextId,
+  timestamp: EPOCH_NS,
+  displayTime: '',
+  ...fields,
+});
+
+const pick = <V>(random: Random, values: readonly V[]) => values[Math.floor(random() * values.length)];
+
+// One random trade. Each field draws from a small pool or a wide range, so
+// inputs mix heavy duplication with distinct keys. Unusual trades add
+// negative, zero and sub-cent prices and fractional sizes, as on P&L, spread
+// or crypto tapes.
+const randomTrade = (random: Random, fewDistinct: boolean, unusual: boolean): Transaction => {
+  const cents = fewDistinct ? pick(random, [1, 100, 12345, 12346]) : 1 + Math.floor(random() * 100000000);
+  const price = !unusual
+    ? cents / 100
+    : fewDistinct
+      ? pick(random, [-12.345, -0.01, -0.004, 0, 0.004, 0.005, 0.01, 123.45])
+      : Math.round((random() - 0.5) * 2e8) / 1000;
+  const quantity = !unusual
+    ? fewDistinct ? pick(random, [1, 100, 100, 5000]) : 1 + Math.floor(random() * 10000000)
+    : fewDistinct ? pick(random, [0.5, 1, 1.25, 100]) : Math.round(random() * 1e7) / 1000;
+  return trade({
+    symbol: pick(random, SYMBOLS),
+    price,
+    quantity,
+    side: (random() < 0.5 ? 'buy' : 'sell') as Side,
+    venue: pick(random, VENUES),
+    // Neighbouring nanoseconds catch any float64 rounding of timestamps
+    timestamp: EPOCH_NS + BigInt(fewDistinct ? Math.floor(random() * 4) : Math.floor(random() * 1e15)),
+  });
+};
+
+export const edgeCases = (): PropertyCase[] => {
+  const same = trade({});
+  return [
+    { name: 'empty', data: [] },
+    { name: 'single', data: [trade({})] },
+    { name: 'two equal', data: [trade({}), trade({})] },
+    { name: 'same item twice', data: [same, same] },
+    { name: 'all equal', data: Array.from({ length: 300 }, () => trade({})) },
+    { name: 'ascending', data: Array.from({ length: 300 }, (_, i) => trade({ price: (i + 1) / 100, quantity: i + 1, timestamp: EPOCH_NS + BigInt(i) })) },
+    { name: 'descending', data: Array.from({ length: 300 }, (_, i) => trade({ price: (300 - i) / 100, quantity: 300 - i, timestamp: EPOCH_NS - BigInt(i) })) },
+    {
+      name: 'extremes',
+      data: [
+        trade({ price: 0.01, quantity: 1, timestamp: BigInt(0), symbol: 'A' }),
+        trade({ price: 1000000, quantity: 10000000, timestamp: MAX_TIMESTAMP, symbol: 'ZZZZZZZZZZZZ' }),
+        trade({ price: 0.01, quantity: 10000000, timestamp: MAX_TIMESTAMP - BigInt(1), symbol: 'ZZZZZZZZZ' }),
+        trade({ price: 1000000, quantity: 1, timestamp: BigInt(1), symbol: 'AA' }),
+      ],
+    },
+    {
+      name: 'negative and zero prices',
+      data: [3.21, -5, 0, -0.01, -0, 1000000, -1000000, 0.01, 0].map(price => trade({ price, quantity: Math.abs(price) + 1 })),
+    },
+    {
+      name: 'sub-cent prices',
+      data: [0.009, 0.001, 0.005, 0.0051, 0.004, 0.01, -0.004, -0.006, 0.0049].map(price => trade({ price })),
+    },
+    {
+      name: 'fractional quantities',
+      data: [1.5, 1, 0.25, 1.0000001, 0.5, 2, 1e-8, 1].map(quantity => trade({ quantity })),
+    },
+    {
+      name: '1ns apart',
+      data: Array.from({ length: 64 }, (_, i) => trade({ timestamp: EPOCH_NS + BigInt(63 - i) })),
+    },
+    {
+      name: 'prefix symbols',
+      data: ['AAPLW', 'AAPL', 'AA', 'A', 'ZZZZZZZZZZZZ', 'ZZZZZZZZZ', 'AAPL'].map(symbol => trade({ symbol })),
+    },
+  ];
+};
+
+export const randomCase = (random: Random, maxSize: number): PropertyCase => {
+  // Mostly small inputs, where edge conditions live, with some large ones
+  const size = random() < 0.7 ? Math.floor(random() * Math.min(maxSize, 64)) : Math.floor(random() * (maxSize + 1));
+  const fewDistinct = random() < 0.4;
+  const unusual = random() < 0.25;
+  return {
+    name: `random n=${size}${fewDistinct ? ' few distinct' : ''}${unusual ? ' signed/fractional' : ''}`,
+    data: Array.from({ length: size }, () => randomTrade(random, fewDistinct, unusual)),
+  };
+};
+
+type Outcome = { failure: PropertyFailure['failure'] } | { skipped: true } | null;
+
+const check = (algorithm: SortAlgorithm, key: KeyExtractor<Transaction>, data: Transaction[]): Outcome => {
+  // Counting sort refuses key ranges it cannot allocate for; that is a
+  // documented limit, not a wrong answer
+  if (!algorithm.supports(key, data)) return { skipped: true };
+  const input = [...data];
+  let sorted: Transaction[];
+  try {
+    sorted = algorithm.sort(input, key).sorted;
+  } catch (error) {
+    return { failure: { check: 'error', index: -1, message: (error as Error).message } };
+  }
+  if (input.some((item, i) => item !== data[i])) {
+    return { failure: { check: 'error', index: -1, message: 'Sorter modified its input array' } };
+  }
+  const failure = verifySort(data, sorted, key, { stable: algorithm.stable });
+  return failure ? { failure } : null;
+};
+
+// Greedy shrinking: drop ever smaller chunks while the input still fails
+const shrink = (algorithm: SortAlgorithm, key: KeyExtractor<Transaction>, data: Transaction[]) => {
+  const fails = (candidate: Transaction[]) => {
+    const outcome = check(algorithm, key, candidate);
+    return outcome !== null && 'failure' in outcome;
+  };
+  let current = data;
+  for (let chunk = Math.floor(current.length / 2); chunk >= 1; chunk = Math.floor(chunk / 2)) {
+    for (let start = 0; start + chunk <= current.length;) {
+      const candidate = [...current.slice(0, start), ...current.slice(start + chunk)];
+      if (fails(candidate)) current = candidate;
+      else start += chunk;
+    }
+  }
+  return current;
+};
+
+export const runPropertySuite = ({
+  seed = 'tradewiz',
+  runs = 50,
+  maxSize = 1000,
+  algorithms = listAlgorithms(),
+  keys = PROPERTY_KEYS,
+}: PropertySuiteOptions = {}): PropertyResult[] => {
+  const results: PropertyResult[] = [];
+  keys.forEach(spec => {
+    const key = transactionSortKey(parseSortSpecs(spec));
+    const random = createRandom(`${seed}/${spec}`);
+    const cases = [...edgeCases(), ...Array.from({ length: runs }, () => randomCase(random, maxSize))];
+
+    // The integer key must agree with the comparator before any radix
+    // result can be trusted, on every input radix sorters accept
+    const keyFailure = cases
+      .filter(({ data }) => radixKeysFit(data, key))
+      .map(({ data }) => verifyKeyConsistency(data, key))
+      .find(Boolean);
+
+    algorithms.filter(algorithm => algorithm.supports(key)).forEach(algorithm => {
+      const result: PropertyResult = { algorithm: algorithm.name, key: key.name, passed: 0, skipped: 0, failures: [] };
+      if (keyFailure) result.failures.push({ algorithm: algorithm.name, key: key.name, case: 'key consistency', failure: keyFailure, counterexample: [] });
+      cases.forEach(({ name, data }) => {
+        const outcome = check(algorithm, key, data);
+        if (outcome === null) result.passed++;
+        else if ('skipped' in outcome) result.skipped++;
+        else result.failures.push({ algorithm: algorithm.name, key: key.name, case: name, failure: outcome.failure, counterexample: shrink(algorithm, key, data) });
+      });
+      results.push(result);
+    });
+  });
+  return results;
+};
@@ -0,0 +1,152 @@
+import type { KeyExtractor, RadixKey } from './types';
+
+// Counting-sort kernel shared by the single-threaded sorter, the workers and
+// the in-thread fallback. Keys are stored losslessly as two 32-bit words
+// (hi, lo) and read `bits` at a time from the least significant end; a digit
+// may straddle the two words. Every function works on a [lo, hi) slice of the
+// index array so several workers can run the same pass over disjoint chunks.
+
+export type RadixBits = 8 | 11 | 16;
+
+export const radixSize = (bits: RadixBits) => 1 << bits;
+
+const WORD = Math.pow(2, 32);
+const BIG_SHIFT = BigInt(32);
+const BIG_MASK = BigInt(0xffffffff);
+
+// Split a 64-bit key into its high and low 32-bit words
+export const splitKey = (key: RadixKey): [number, number] => {
+  if (typeof key === 'bigint') {
+    return [Number((key >> BIG_SHIFT) & BIG_MASK), Number(key & BIG_MASK)];
+  }
+  return [Math.floor(key / WORD), key >>> 0];
+};
+
+const MAX_KEY = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+// Whether every item's integer key is one splitKey keeps in order: a
+// non-negative integer below 2^64. Negative or fractional numbers (a negative
+// price, a fractional quantity) would disagree with the key's comparator.
+// Keys given as words (floats, strings) always fit.
+export const radixKeysFit = <T>(data: readonly T[], key: KeyExtractor<T>): boolean => {
+  if (key.fields) return key.fields.every(field => radixKeysFit(data, field.key));
+  if (key.radixWords) return true;
+  for (let i = 0; i < data.length; i++) {
+    const value = key.radixKey(data[i]);
+    const fits = typeof value === 'bigint' ? value >= 0 && value <= MAX_KEY : Number.isSafeInteger(value) && value >= 0;
+    if (!fits) return false;
+  }
+  return true;
+};
+
+// Inverse of splitKey
+export const joinWords = (hi: number, lo: number): bigint => (BigInt(hi) << BIG_SHIFT) | BigInt(lo);
+
+const floatView = new DataView(new ArrayBuffer(8));
+
+// Order-preserving map from a float64 to an unsigned 64-bit key: set the sign
+// bit of positives and flip every bit of negatives, so negative, fractional
+// and sub-cent values all compare correctly as integers. -0 is folded into +0
+// and NaN sorts after +Infinity.
+export const floatToWords = (value: number): [number, number] => {
+  floatView.setFloat64(0, value === 0 ? 0 : value);
+  const hi = floatView.getUint32(0);
+  const lo = floatView.getUint32(4);
+  return hi & 0x80000000 ? [~hi >>> 0, ~lo >>> 0] : [(hi | 0x80000000) >>> 0, lo];
+};
+
+const bitLength = (value: number) => (value === 0 ? 0 : 32 - Math.clz32(value));
+
+// Number of digit passes needed to cover the largest key
+export const passCount = (keysHi: Uint32Array, keysLo: Uint32Array, bits: RadixBits): number => {
+  let orHi = 0, orLo = 0;
+  for (let i = 0; i < keysLo.length; i++) {
+    orHi |= keysHi[i];
+    orLo |= keysLo[i];
+  }
+  const significant = orHi !== 0 ? 32 + bitLength(orHi) : bitLength(orLo);
+  return Math.max(1, Math.ceil(significant / bits));
+};
+
+const digitOf = (keysHi: Uint32Array, keysLo: Uint32Array, index: number, shift: number, mask: number) => {
+  if (shift >= 32) return (keysHi[index] >>> (shift - 32)) & mask;
+  if (shift === 0) return keysLo[index] & mask;
+  return ((keysLo[index] >>> shift) | (keysHi[index] << (32 - shift))) & mask;
+};
+
+// Count the digits of one chunk into histogram[offset .. offset + radix)
+export const buildHistogram = (
+  keysHi: Uint32Array,
+  keysLo: Uint32Array,
+  src: Uint32Array,
+  lo: number,
+  hi: number,
+  pass: number,
+  bits: RadixBits,
+  histogram: Uint32Array,
+  offset: number
+) => {
+  const shift = pass * bits;
+  const mask = radixSize(bits) - 1;
+  histogram.fill(0, offset, offset + radixSize(bits));
+  for (let i = lo; i < hi; i++) {
+    histogram[offset + digitOf(keysHi, keysLo, src[i], shift, mask)]++;
+  }
+};
+
+// Turn per-worker counts into per-worker write offsets, in place. Worker w's
+// offset for digit d is everything in smaller digits plus the d-digits owned
+// by workers before w, which keeps the pass stable. Returns false when every
+// key landed in the same digit, i.e. the pass would not move anything.
+export const prefixSum = (histograms: Uint32Array, workers: number, bits: RadixBits): boolean => {
+  const radix = radixSize(bits);
+  let total = 0;
+  let occupied = 0;
+  for (let d = 0; d < radix; d++) {
+    let digitTotal = 0;
+    for (let w = 0; w < workers; w++) {
+      const count = histograms[w * radix + d];
+      histograms[w * radix + d] = total;
+      total += count;
+      digitTotal += count;
+    }
+    if (digitTotal > 0) occupied++;
+  }
+  return occupied > 1;
+};
+
+// Scatter one chunk into dst using the offsets produced by prefixSum
+export const scatter = (
+  keysHi: Uint32Array,
+  keysLo: Uint32Array,
+  src: Uint32Array,
+  dst: Uint32Array,
+  lo: number,
+  hi: number,
+  pass: number,
+  bits: RadixBits,
+  offsets: Uint32Array,
+  offset: number
+) => {
+  const shift = pass * bits;
+  const mask = radixSize(bits) - 1;
+  for (let i = lo; i < hi; i++) {
+    const index = src[i];
+    dst[offsets[offset + digitOf(keysHi, keysLo, index, shift, mask)]++] = index;
+  }
+};
+
+// Fill the key words for every item and reset the index array to identity
+export const loadKeys = <T>(
+  data: readonly T[],
+  key: KeyExtractor<T>,
+  keysHi: Uint32Array,
+  keysLo: Uint32Array,
+  index: Uint32Array
+) => {
+  const toWords = key.radixWords ?? ((item: T) => splitKey(key.radixKey(item)));
+  for (let i = 0; i < data.length; i++) {
+    [keysHi[i], keysLo[i]] = toWords(data[i]);
+    index[i] = i;
+  }
+};
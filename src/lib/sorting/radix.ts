@@ -0,0 +1,107 @@
+import { buildHistogram, loadKeys, passCount, prefixSum, radixSize, scatter, type RadixBits } from './radix-kernel';
+import { sortByFields } from './composite';
+import { msdRadixSort } from './string-radix';
+import {
+  PREPROCESS_SAMPLE,
+  type KeyExtractor,
+  type RadixEntry,
+  type RadixSortResult,
+  type SortField,
+  type Sorter,
+} from './types';
+
+export interface RadixSortOptions {
+  bits?: RadixBits;
+}
+
+// Preprocess data for radix sort
+export const preprocessForRadix = <T>(data: readonly T[], key: KeyExtractor<T>): RadixEntry<T>[] =>
+  data.map(item => ({ item, key: key.radixKey(item) }));
+
+// LSD radix sort: one counting-sort pass per `bits`-wide digit over typed-array
+// key words. Only the Uint32 index array is permuted; items are gathered once
+// at the end. String keys are handed to the MSD sorter instead.
+export const radixSort = <T>(
+  arr: readonly T[],
+  key: KeyExtractor<T>,
+  { bits = 8 }: RadixSortOptions = {}
+): RadixSortResult<T> => {
+  if (key.fields) return compositeRadixSort(arr, key, key.fields, bits);
+  if (key.stringKey) return msdRadixSort(arr, key);
+
+  const algorithm = `radix-${bits}`;
+  if (arr.length <= 1) {
+    return { sorted: [...arr], time: 0, algorithm, key: key.name, size: arr.length, preprocessed: [], bits, passes: 0 };
+  }
+
+  const startTime = performance.now();
+  const n = arr.length;
+  const keysHi = new Uint32Array(n);
+  const keysLo = new Uint32Array(n);
+  let src = new Uint32Array(n);
+  let dst = new Uint32Array(n);
+  const histogram = new Uint32Array(radixSize(bits));
+  loadKeys(arr, key, keysHi, keysLo, src);
+
+  let moved = 0;
+  const passes = passCount(keysHi, keysLo, bits);
+  for (let pass = 0; pass < passes; pass++) {
+    buildHistogram(keysHi, keysLo, src, 0, n, pass, bits, histogram, 0);
+    // Skip digits every key shares
+    if (!prefixSum(histogram, 1, bits)) continue;
+    scatter(keysHi, keysLo, src, dst, 0, n, pass, bits, histogram, 0);
+    [src, dst] = [dst, src];
+    moved++;
+  }
+
+  const sorted = Array.from(src, index => arr[index]);
+  const endTime = performance.now();
+
+  const preprocessed = arr.slice(0, PREPROCESS_SAMPLE).map(item => ({ item, key: key.radixKey(item) }));
+  return {
+    sorted,
+    time: endTime - startTime,
+    algorithm,
+    key: key.name,
+    size: n,
+    preprocessed,
+    bits,
+    passes: moved,
+  };
+};
+
+// One stable radix sort per field, least significant first
+const compositeRadixSort = <T>(
+  arr: readonly T[],
+  key: KeyExtractor<T>,
+  fields: SortField<T>[],
+  bits: RadixBits
+): RadixSortResult<T> => {
+  const startTime = performance.now();
+  let passes = 0;
+  const sorted = sortByFields(arr, fields, (items, field) => {
+    const result = radixSort(items, field, { bits });
+    passes += result.passes;
+    return result.sorted;
+  });
+  const endTime = performance.now();
+
+  const preprocessed = arr.slice(0, PREPROCESS_SAMPLE).map(item => ({ item, key: key.radixKey(item) }));
+  return {
+    sorted,
+    time: endTime - startTime,
+    algorithm: `radix-${bits}`,
+    key: key.name,
+    size: arr.length,
+    preprocessed,
+    bits,
+    passes,
+  };
+};
+
+export const createRadixSorter = (bits: RadixBits) => ({
+  name: `radix-${bits}`,
+  sort: <T>(data: readonly T[], key: KeyExtractor<T>) => radixSort(data, key, { bits }),
+}) satisfies Sorter<unknown>;
+
+export const radixSorter = createRadixSorter(8);
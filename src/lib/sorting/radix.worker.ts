@@ -0,0 +1,48 @@
+import { buildHistogram, radixSize, scatter, type RadixBits } from './radix-kernel';
+import type { WorkerRequest, WorkerResponse } from './parallel';
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse) => void;
+};
+
+let state: {
+  worker: number;
+  bits: RadixBits;
+  lo: number;
+  hi: number;
+  keysHi: Uint32Array;
+  keysLo: Uint32Array;
+  indexA: Uint32Array;
+  indexB: Uint32Array;
+  histograms: Uint32Array;
+} | null = null;
+
+ctx.onmessage = ({ data: message }) => {
+  if (message.type === 'load') {
+    const { buffers, bits, worker, lo, hi } = message;
+    state = {
+      worker,
+      bits,
+      lo,
+      hi,
+      keysHi: new Uint32Array(buffers.keysHi),
+      keysLo: new Uint32Array(buffers.keysLo),
+      indexA: new Uint32Array(buffers.indexA),
+      indexB: new Uint32Array(buffers.indexB),
+      histograms: new Uint32Array(buffers.histograms),
+    };
+  } else if (!state) {
+    ctx.postMessage({ type: 'error', message: `${message.type} pass sent before the buffers were loaded` });
+    return;
+  } else {
+    const { worker, bits, lo, hi, keysHi, keysLo, histograms } = state;
+    const [src, dst] = message.source === 'a' ? [state.indexA, state.indexB] : [state.indexB, state.indexA];
+    if (message.type === 'histogram') {
+      buildHistogram(keysHi, keysLo, src, lo, hi, message.pass, bits, histograms, worker * radixSize(bits));
+    } else {
+      scatter(keysHi, keysLo, src, dst, lo, hi, message.pass, bits, histograms, worker * radixSize(bits));
+    }
+  }
+  ctx.postMessage({ type: 'done', worker: state.worker });
+};
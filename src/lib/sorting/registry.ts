@@ -0,0 +1,73 @@
+import { MAX_COUNTING_RANGE, countingRange, countingSort } from './counting';
+import { heapSort } from './heapsort';
+import { introSort } from './introsort';
+import { mergeSort } from './merge';
+import { nativeSort } from './native';
+import { radixSort } from './radix';
+import { radixKeysFit } from './radix-kernel';
+import { timSort } from './timsort';
+import type { KeyExtractor, SortResult } from './types';
+
+export interface SortAlgorithm {
+  name: string;
+  label: string;
+  stable: boolean;
+  sort: <T>(data: readonly T[], key: KeyExtractor<T>) => SortResult<T>;
+  // Whether the algorithm can order by this key at all; given `data`, also
+  // whether it can order these particular items (e.g. counting sort's range)
+  supports: <T>(key: KeyExtractor<T>, data?: readonly T[]) => boolean;
+}
+
+const any = () => true;
+// Radix sorters read integer keys, which only agree with the comparator when
+// they are non-negative integers
+const fitsRadix = <T>(key: KeyExtractor<T>, data?: readonly T[]) => !data || radixKeysFit(data, key);
+
+const algorithms = new Map<string, SortAlgorithm>();
+
+// Later registrations with the same name replace earlier ones
+export const registerAlgorithm = (algorithm: SortAlgorithm) => {
+  algorithms.set(algorithm.name, algorithm);
+};
+
+export const getAlgorithm = (name: string): SortAlgorithm => {
+  const algorithm = algorithms.get(name);
+  if (!algorithm) throw new Error(`Unknown sort algorithm "${name}"`);
+  return algorithm;
+};
+
+export const listAlgorithms = (): SortAlgorithm[] => Array.from(algorithms.values());
+
+registerAlgorithm({
+  name: 'radix-8',
+  label: 'Radix Sort (8-bit)',
+  stable: true,
+  sort: (data, key) => radixSort(data, key, { bits: 8 }),
+  supports: fitsRadix,
+});
+registerAlgorithm({
+  name: 'radix-11',
+  label: 'Radix Sort (11-bit)',
+  stable: true,
+  sort: (data, key) => radixSort(data, key, { bits: 11 }),
+  supports: fitsRadix,
+});
+registerAlgorithm({
+  name: 'radix-16',
+  label: 'Radix Sort (16-bit)',
+  stable: true,
+  sort: (data, key) => radixSort(data, key, { bits: 16 }),
+  supports: fitsRadix,
+});
+registerAlgorithm({ name: 'merge', label: 'Merge Sort', stable: true, sort: mergeSort, supports: any });
+registerAlgorithm({ name: 'native', label: 'Array.prototype.sort', stable: true, sort: nativeSort, supports: any });
+registerAlgorithm({ name: 'timsort', label: 'Timsort', stable: true, sort: timSort, supports: any });
+registerAlgorithm({ name: 'introsort', label: 'Introsort', stable: false, sort: introSort, supports: any });
+registerAlgorithm({ name: 'heap', label: 'Heap Sort', stable: false, sort: heapSort, supports: any });
+registerAlgorithm({
+  name: 'counting',
+  label: 'Counting Sort (cents)',
+  stable: true,
+  sort: countingSort,
+  supports: (key, data) => key.dense === true && (!data || countingRange(data, key) <= MAX_COUNTING_RANGE),
+});
@@ -0,0 +1,169 @@
+import { loadKeys, radixKeysFit } from './radix-kernel';
+import type { KeyExtractor, SortDirection } from './types';
+
+// Order statistics without a full sort. Ranks are 0-based positions in the
+// ascending order of `compare`; ties keep input order where noted, matching
+// what a stable sort would put at that position.
+
+export type SelectMethod = 'quickselect' | 'heap' | 'radix';
+
+// Partitions `items` in place so items[k] is the k-th smallest, everything
+// before it <= and everything after >=. Three-way partitioning keeps runs of
+// equal keys (common with cent prices) from degrading to quadratic time.
+export const quickselect = <T>(items: T[], k: number, compare: (a: T, b: T) => number, random: () => number = Math.random): T => {
+  if (k < 0 || k >= items.length) throw new RangeError(`Rank ${k} is outside 0..${items.length - 1}`);
+  let lo = 0, hi = items.length - 1;
+  while (lo < hi) {
+    const pivot = items[lo + Math.floor(random() * (hi - lo + 1))];
+    // [lo, lt) < pivot, [lt, i) == pivot, (gt, hi] > pivot
+    let lt = lo, i = lo, gt = hi;
+    while (i <= gt) {
+      const order = compare(items[i], pivot);
+      if (order < 0) {
+        [items[lt], items[i]] = [items[i], items[lt]];
+        lt++;
+        i++;
+      } else if (order > 0) {
+        [items[i], items[gt]] = [items[gt], items[i]];
+        gt--;
+      } else {
+        i++;
+      }
+    }
+    if (k < lt) hi = lt - 1;
+    else if (k > gt) lo = gt + 1;
+    else break;
+  }
+  return items[k];
+};
+
+// The k smallest items in ascending order via a bounded max-heap: O(n log k)
+// time and O(k) space. Stable: among equal keys the earlier item wins.
+export const heapTopK = <T>(data: readonly T[], k: number, compare: (a: T, b: T) => number): T[] => {
+  const size = Math.min(Math.max(0, k), data.length);
+  if (size === 0) return [];
+  // Heap of indices; the root is the largest (latest on ties) kept so far
+  const after = (i: number, j: number) => {
+    const order = compare(data[i], data[j]);
+    return order > 0 || (order === 0 && i > j);
+  };
+  const heap: number[] = [];
+  const siftDown = (root: number) => {
+    const value = heap[root];
+    let parent = root;
+    while (2 * parent + 1 < heap.length) {
+      let child = 2 * parent + 1;
+      if (child + 1 < heap.length && after(heap[child + 1], heap[child])) child++;
+      if (!after(heap[child], value)) break;
+      heap[parent] = heap[child];
+      parent = child;
+    }
+    heap[parent] = value;
+  };
+
+  for (let i = 0; i < data.length; i++) {
+    if (heap.length < size) {
+      // Sift up
+      let child = heap.push(i) - 1;
+      while (child > 0) {
+        const parent = (child - 1) >> 1;
+        if (!after(heap[child], heap[parent])) break;
+        [heap[child], heap[parent]] = [heap[parent], heap[child]];
+        child = parent;
+      }
+    } else if (after(heap[0], i)) {
+      heap[0] = i;
+      siftDown(0);
+    }
+  }
+  return heap.sort((i, j) => (after(i, j) ? 1 : -1)).map(i => data[i]);
+};
+
+// Whether radixSelect can use this key: one fixed-width integer key
+export const supportsRadixSelect = <T>(key: KeyExtractor<T>) => !key.fields && !key.stringKey;
+
+// MSD radix select over the 64-bit key words, 16 bits per round: histogram
+// the candidates, keep only the bucket that holds rank k, repeat. Four linear
+// passes at most, each over a shrinking candidate set. Stable.
+export const radixSelect = <T>(data: readonly T[], k: number, key: KeyExtractor<T>): T => {
+  if (!supportsRadixSelect(key)) throw new Error(`Radix select needs a single fixed-width key, not ${key.name}`);
+  if (k < 0 || k >= data.length) throw new RangeError(`Rank ${k} is outside 0..${data.length - 1}`);
+  const n = data.length;
+  const keysHi = new Uint32Array(n);
+  const keysLo = new Uint32Array(n);
+  let candidates = new Uint32Array(n);
+  loadKeys(data, key, keysHi, keysLo, candidates);
+  const counts = new Uint32Array(1 << 16);
+  let rank = k;
+
+  for (let round = 0; round < 4 && candidates.length > 1; round++) {
+    const words = round < 2 ? keysHi : keysLo;
+    const shift = round % 2 === 0 ? 16 : 0;
+    counts.fill(0);
+    for (let i = 0; i < candidates.length; i++) counts[(words[candidates[i]] >>> shift) & 0xffff]++;
+    let digit = 0;
+    while (rank >= counts[digit]) rank -= counts[digit++];
+    if (counts[digit] === candidates.length) continue; // every candidate shares this digit
+    const next = new Uint32Array(counts[digit]);
+    let fill = 0;
+    for (let i = 0; i < candidates.length; i++) {
+      if (((words[candidates[i]] >>> shift) & 0xffff) === digit) next[fill++] = candidates[i];
+    }
+    candidates = next;
+  }
+  // Survivors share the whole key and are still in input order
+  return data[candidates[rank]];
+};
+
+// Nearest-rank position of quantile p in n items: the smallest rank with at
+// least p of the items at or below it. The median of an even count is the
+// lower middle item.
+export const quantileRank = (n: number, p: number) => Math.min(n - 1, Math.max(0, Math.ceil(p * n) - 1));
+
+const descending = <T>(compare: (a: T, b: T) => number) => (a: T, b: T) => compare(b, a);
+
+// The first k items of the data sorted by key in the given direction
+export const topK = <T>(
+  data: readonly T[],
+  k: number,
+  key: KeyExtractor<T>,
+  direction: SortDirection = 'desc',
+  method: Exclude<SelectMethod, 'radix'> = 'heap'
+): T[] => {
+  const compare = direction === 'desc' ? descending(key.compare) : key.compare;
+  if (method === 'heap') return heapTopK(data, k, compare);
+  const size = Math.min(Math.max(0, k), data.length);
+  if (size === 0) return [];
+  const items = [...data];
+  quickselect(items, size - 1, compare);
+  return items.slice(0, size).sort(compare);
+};
+
+// The item at quantile p (0..1) of the data ordered by key
+export const quantile = <T>(data: readonly T[], p: number, key: KeyExtractor<T>, method: SelectMethod = 'quickselect'): T | undefined => {
+  if (data.length === 0) return undefined;
+  const rank = quantileRank(data.length, p);
+  if (method === 'radix' && supportsRadixSelect(key) && radixKeysFit(data, key)) return radixSelect(data, rank, key);
+  if (method === 'heap') return heapTopK(data, rank + 1, key.compare)[rank];
+  return quickselect([...data], rank, key.compare);
+};
+
+// Quantile p of each group, e.g. the median price per symbol
+export const quantileBy = <T>(
+  data: readonly T[],
+  p: number,
+  key: KeyExtractor<T>,
+  group: (item: T) => string,
+  method: SelectMethod = 'quickselect'
+): Map<string, T> => {
+  const groups = new Map<string, T[]>();
+  data.forEach(item => {
+    const name = group(item);
+    const members = groups.get(name);
+    if (members) members.push(item);
+    else groups.set(name, [item]);
+  });
+  const result = new Map<string, T>();
+  Array.from(groups.keys()).sort().forEach(name => result.set(name, quantile(groups.get(name)!, p, key, method)!));
+  return result;
+};
@@ -0,0 +1,142 @@
+import { joinWords } from './radix-kernel';
+import { PREPROCESS_SAMPLE, type KeyExtractor, type RadixSortResult } from './types';
+
+// Plain code-unit lexicographic order: a proper prefix sorts first, so
+// "AAPL" < "AAPL240621C00190000" < "AMD". Comparison sorters must use this
+// rather than localeCompare to agree with the MSD radix sort.
+export const compareAscii = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+const BUCKETS = 257; // 0 = string ended, c + 1 = byte c
+const INSERTION_THRESHOLD = 32;
+
+const bucketAt = (s: string, depth: number) => (depth < s.length ? s.charCodeAt(depth) + 1 : 0);
+
+// Pack the first 8 bytes into a 64-bit key, right-padded with zeros, so the
+// integer order of the prefix matches lexicographic order. Longer strings that
+// share the prefix tie and must be finished off by sortStringRange.
+export const STRING_PREFIX_BYTES = 8;
+
+export const packStringWords = (s: string): [number, number] => {
+  let hi = 0, lo = 0;
+  for (let i = 0; i < STRING_PREFIX_BYTES; i++) {
+    const byte = i < s.length ? Math.min(255, s.charCodeAt(i)) : 0;
+    if (i < 4) hi = hi * 256 + byte;
+    else lo = lo * 256 + byte;
+  }
+  return [hi, lo];
+};
+
+export const packStringPrefix = (s: string): bigint => {
+  const [hi, lo] = packStringWords(s);
+  return joinWords(hi, lo);
+};
+
+// Stable MSD radix sort of index[lo, hi) by strings[index[i]], assuming every
+// string in the range shares its first `depth` characters. Returns the deepest
+// level reached. Ranges holding non-ASCII characters fall back to a comparison
+// sort so the result is always exact.
+export const sortStringRange = (
+  strings: readonly string[],
+  index: Uint32Array,
+  tmp: Uint32Array,
+  lo: number,
+  hi: number,
+  depth: number
+): number => {
+  if (hi - lo < 2) return depth;
+
+  if (hi - lo < INSERTION_THRESHOLD) {
+    for (let i = lo + 1; i < hi; i++) {
+      const current = index[i];
+      let j = i - 1;
+      while (j >= lo && compareAscii(strings[index[j]], strings[current]) > 0) {
+        index[j + 1] = index[j];
+        j--;
+      }
+      index[j + 1] = current;
+    }
+    return depth;
+  }
+
+  const starts = new Uint32Array(BUCKETS + 1);
+  for (let i = lo; i < hi; i++) {
+    const bucket = bucketAt(strings[index[i]], depth);
+    if (bucket >= BUCKETS) {
+      // Original positions break ties, which keeps the fallback stable
+      const range = Array.from(index.subarray(lo, hi)).sort((x, y) => compareAscii(strings[x], strings[y]) || x - y);
+      index.set(range, lo);
+      return depth;
+    }
+    starts[bucket + 1]++;
+  }
+  for (let b = 0; b < BUCKETS; b++) starts[b + 1] += starts[b];
+
+  const next = starts.slice();
+  for (let i = lo; i < hi; i++) {
+    const current = index[i];
+    tmp[lo + next[bucketAt(strings[current], depth)]++] = current;
+  }
+  index.set(tmp.subarray(lo, hi), lo);
+
+  // Bucket 0 holds strings that ended here; they are all equal
+  let deepest = depth + 1;
+  for (let b = 1; b < BUCKETS; b++) {
+    if (starts[b + 1] - starts[b] > 1) {
+      deepest = Math.max(deepest, sortStringRange(strings, index, tmp, lo + starts[b], lo + starts[b + 1], depth + 1));
+    }
+  }
+  return deepest;
+};
+
+// MSD radix sort for variable-length string keys. Requires `key.stringKey`;
+// bytes are consumed most significant first and only the index array moves.
+export const msdRadixSort = <T>(arr: readonly T[], key: KeyExtractor<T>): RadixSortResult<T> => {
+  const stringKey = key.stringKey;
+  if (!stringKey) throw new Error(`Sort key "${key.name}" has no string form for MSD radix sort`);
+  if (arr.length <= 1) {
+    return { sorted: [...arr], time: 0, algorithm: 'msd-radix', key: key.name, size: arr.length, preprocessed: [], bits: 8, passes: 0 };
+  }
+
+  const startTime = performance.now();
+  const n = arr.length;
+  const strings = arr.map(stringKey);
+  const index = new Uint32Array(n);
+  for (let i = 0; i < n; i++) index[i] = i;
+
+  const passes = sortStringRange(strings, index, new Uint32Array(n), 0, n, 0);
+  const sorted = Array.from(index, i => arr[i]);
+  const endTime = performance.now();
+
+  const preprocessed = arr.slice(0, PREPROCESS_SAMPLE).map(item => ({ item, key: key.radixKey(item) }));
+  return {
+    sorted,
+    time: endTime - startTime,
+    algorithm: 'msd-radix',
+    key: key.name,
+    size: n,
+    preprocessed,
+    bits: 8,
+    passes,
+  };
+};
+
+// Finish an index already ordered by packed prefixes: every run of equal
+// prefix words is re-sorted by the full string.
+export const finishPrefixTies = (
+  strings: readonly string[],
+  index: Uint32Array,
+  keysHi: Uint32Array,
+  keysLo: Uint32Array
+) => {
+  const n = index.length;
+  const tmp = new Uint32Array(n);
+  let runStart = 0;
+  for (let i = 1; i <= n; i++) {
+    const head = index[runStart];
+    if (i === n || keysHi[index[i]] !== keysHi[head] || keysLo[index[i]] !== keysLo[head]) {
+      // Start from depth 0: clamped non-ASCII bytes can pack equal without matching
+      if (i - runStart > 1) sortStringRange(strings, index, tmp, runStart, i, 0);
+      runStart = i;
+    }
+  }
+};
@@ -0,0 +1,118 @@
+import type { KeyExtractor, SortResult } from './types';
+
+const MIN_MERGE = 32;
+
+// Run length Timsort pads short natural runs to: between MIN_MERGE/2 and
+// MIN_MERGE, chosen so n / minRun is close to a power of two
+const minRunLength = (n: number) => {
+  let extra = 0;
+  while (n >= MIN_MERGE) {
+    extra |= n & 1;
+    n >>= 1;
+  }
+  return n + extra;
+};
+
+// Length of the natural run starting at lo. Strictly descending runs are
+// reversed in place; strictness is what keeps the reversal stable.
+const countRun = <T>(a: T[], lo: number, hi: number, compare: (x: T, y: T) => number) => {
+  let runHi = lo + 1;
+  if (runHi === hi) return 1;
+  if (compare(a[runHi++], a[lo]) < 0) {
+    while (runHi < hi && compare(a[runHi], a[runHi - 1]) < 0) runHi++;
+    for (let i = lo, j = runHi - 1; i < j; i++, j--) {
+      const tmp = a[i];
+      a[i] = a[j];
+      a[j] = tmp;
+    }
+  } else {
+    while (runHi < hi && compare(a[runHi], a[runHi - 1]) >= 0) runHi++;
+  }
+  return runHi - lo;
+};
+
+// Extend the sorted prefix a[lo, start) to a[lo, hi); equal items are
+// inserted after their peers so the sort stays stable
+const binaryInsertionSort = <T>(a: T[], lo: number, hi: number, start: number, compare: (x: T, y: T) => number) => {
+  for (; start < hi; start++) {
+    const pivot = a[start];
+    let left = lo, right = start;
+    while (left < right) {
+      const mid = (left + right) >>> 1;
+      if (compare(pivot, a[mid]) < 0) right = mid;
+      else left = mid + 1;
+    }
+    for (let k = start; k > left; k--) a[k] = a[k - 1];
+    a[left] = pivot;
+  }
+};
+
+// Merge the adjacent runs a[base, base + len1) and a[base + len1, base + len1 + len2)
+const mergeRuns = <T>(a: T[], base: number, len1: number, len2: number, compare: (x: T, y: T) => number) => {
+  const left = a.slice(base, base + len1);
+  const end = base + len1 + len2;
+  let i = 0, j = base + len1, k = base;
+  while (i < len1 && j < end) {
+    a[k++] = compare(a[j], left[i]) < 0 ? a[j++] : left[i++];
+  }
+  while (i < len1) a[k++] = left[i++];
+};
+
+// Timsort: natural runs padded with binary insertion sort, merged under the
+// run-stack invariants. Stable; galloping mode is omitted.
+export const timSort = <T>(arr: readonly T[], key: KeyExtractor<T>): SortResult<T> => {
+  const startTime = performance.now();
+  const a = [...arr];
+  const n = a.length;
+  const compare = key.compare;
+  const runBase: number[] = [];
+  const runLen: number[] = [];
+
+  const mergeAt = (i: number) => {
+    mergeRuns(a, runBase[i], runLen[i], runLen[i + 1], compare);
+    runLen[i] += runLen[i + 1];
+    runBase.splice(i + 1, 1);
+    runLen.splice(i + 1, 1);
+  };
+
+  // Keep run lengths shrinking faster than Fibonacci from the bottom up
+  const mergeCollapse = () => {
+    while (runLen.length > 1) {
+      let i = runLen.length - 2;
+      if (
+        (i > 0 && runLen[i - 1] <= runLen[i] + runLen[i + 1]) ||
+        (i > 1 && runLen[i - 2] <= runLen[i - 1] + runLen[i])
+      ) {
+        if (runLen[i - 1] < runLen[i + 1]) i--;
+      } else if (runLen[i] > runLen[i + 1]) {
+        break;
+      }
+      mergeAt(i);
+    }
+  };
+
+  if (n > 1) {
+    const minRun = minRunLength(n);
+    let lo = 0;
+    while (lo < n) {
+      let len = countRun(a, lo, n, compare);
+      if (len < minRun) {
+        const forced = Math.min(n - lo, minRun);
+        binaryInsertionSort(a, lo, lo + forced, lo + len, compare);
+        len = forced;
+      }
+      runBase.push(lo);
+      runLen.push(len);
+      mergeCollapse();
+      lo += len;
+    }
+    while (runLen.length > 1) {
+      let i = runLen.length - 2;
+      if (i > 0 && runLen[i - 1] < runLen[i + 1]) i--;
+      mergeAt(i);
+    }
+  }
+  const endTime = performance.now();
+
+  return { sorted: a, time: endTime - startTime, algorithm: 'timsort', key: key.name, size: n };
+};
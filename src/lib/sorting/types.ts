@@ -0,0 +1,57 @@
+import type { RadixBits } from './radix-kernel';
+
+// Integer sort key. Keys above Number.MAX_SAFE_INTEGER (nanosecond
+// timestamps) must be bigint; every key must fit in 64 unsigned bits.
+export type RadixKey = number | bigint;
+
+// Extracts an ordering from an item. Radix sorters use `radixKey`, which must
+// return a non-negative integer; comparison sorters use `compare`.
+export interface KeyExtractor<T> {
+  name: string;
+  radixKey: (item: T) => RadixKey;
+  // Optional fast path returning the key directly as [hi, lo] 32-bit words
+  radixWords?: (item: T) => [number, number];
+  // Variable-length keys: when present, radixKey is only a packed prefix and
+  // radix sorters order by this string exactly
+  stringKey?: (item: T) => string;
+  // Composite keys: radix sorters run one stable pass per field instead
+  fields?: SortField<T>[];
+  // Keys are numbers within a small range (e.g. cents), so counting sort applies
+  dense?: boolean;
+  compare: (a: T, b: T) => number;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortField<T> {
+  key: KeyExtractor<T>;
+  direction: SortDirection;
+}
+
+export interface SortResult<T> {
+  sorted: T[];
+  time: number; // milliseconds spent inside the sorter
+  algorithm: string;
+  key: string;
+  size: number;
+}
+
+export interface Sorter<T> {
+  name: string;
+  sort: (data: readonly T[], key: KeyExtractor<T>) => SortResult<T>;
+}
+
+// An item paired with the integer key the radix sorter distributes on
+export interface RadixEntry<T> {
+  item: T;
+  key: RadixKey;
+}
+
+// How many leading items keep their extracted key for display
+export const PREPROCESS_SAMPLE = 20;
+
+export interface RadixSortResult<T> extends SortResult<T> {
+  preprocessed: RadixEntry<T>[]; // first PREPROCESS_SAMPLE items with their keys
+  bits: RadixBits;
+  passes: number; // passes that actually moved data
+}
@@ -0,0 +1,80 @@
+import { splitKey } from './radix-kernel';
+import type { KeyExtractor } from './types';
+
+export type VerificationCheck = 'sorted' | 'permutation' | 'stable' | 'key';
+
+export interface VerificationFailure {
+  check: VerificationCheck;
+  index: number; // output position where the check failed
+  message: string;
+}
+
+export interface VerifyOptions {
+  stable?: boolean; // also require equal keys to keep their input order
+}
+
+// Checks that `output` is `input` reordered by `key`: every adjacent pair in
+// order, the same items the same number of times, and for stable sorters
+// equal keys in input order. Returns the first failure, or null.
+export const verifySort = <T>(
+  input: readonly T[],
+  output: readonly T[],
+  key: KeyExtractor<T>,
+  { stable = false }: VerifyOptions = {}
+): VerificationFailure | null => {
+  if (output.length !== input.length) {
+    return { check: 'permutation', index: Math.min(input.length, output.length), message: `Output has ${output.length} items, input has ${input.length}` };
+  }
+
+  // Input positions per item, in order; an item may appear more than once
+  const positions = new Map<T, number[]>();
+  input.forEach((item, i) => {
+    const list = positions.get(item);
+    if (list) list.push(i);
+    else positions.set(item, [i]);
+  });
+  const taken = new Map<T, number>();
+  let previousPosition = -1;
+
+  for (let i = 0; i < output.length; i++) {
+    const item = output[i];
+    const list = positions.get(item);
+    const used = taken.get(item) ?? 0;
+    if (!list || used >= list.length) {
+      return { check: 'permutation', index: i, message: list ? 'Item appears more often than in the input' : 'Item is not in the input' };
+    }
+    taken.set(item, used + 1);
+    const position = list[used];
+
+    if (i > 0) {
+      const order = key.compare(output[i - 1], item);
+      if (order > 0) return { check: 'sorted', index: i, message: `Item ${i - 1} orders after item ${i} by ${key.name}` };
+      if (stable && order === 0 && position < previousPosition) {
+        return { check: 'stable', index: i, message: `Equal ${key.name} keys at ${i - 1} and ${i} swapped input order (${previousPosition} > ${position})` };
+      }
+    }
+    previousPosition = position;
+  }
+  return null;
+};
+
+// Checks that a key's integer form orders items the same way as its
+// comparator, which is what radix and counting sorters rely on. Catches
+// extractors that lose precision (e.g. ns timestamps rounded to float64).
+// String and composite keys order by other means and always pass.
+export const verifyKeyConsistency = <T>(data: readonly T[], key: KeyExtractor<T>): VerificationFailure | null => {
+  if (key.fields || key.stringKey) return null;
+  const toWords = key.radixWords ?? ((item: T) => splitKey(key.radixKey(item)));
+  const sorted = [...data].sort(key.compare);
+  for (let i = 1; i < sorted.length; i++) {
+    // Compare as the unsigned words radix sorters load
+    const [hiA, loA] = toWords(sorted[i - 1]).map(word => word >>> 0);
+    const [hiB, loB] = toWords(sorted[i]).map(word => word >>> 0);
+    const order = key.compare(sorted[i - 1], sorted[i]);
+    const integerOrder = hiA !== hiB ? hiA - hiB : loA - loB;
+    if ((order < 0 && integerOrder >= 0) || (order === 0 && integerOrder !== 0)) {
+      return { check: 'key', index: i, message: `${key.name} radix key disagrees with its comparator` };
+    }
+  }
+  return null;
+};
@@ -0,0 +1,164 @@
+import type { KeyExtractor, Sorter } from './types';
+
+// Merges sorted runs with a min-heap of run cursors: O(n log k) for n items
+// in k runs. Ties go to the earlier run, so merging stable runs in arrival
+// order is stable too.
+export const kWayMerge = <T>(runs: readonly (readonly T[])[], compare: (a: T, b: T) => number): T[] => {
+  const live = runs.filter(run => run.length > 0);
+  if (live.length === 0) return [];
+  if (live.length === 1) return [...live[0]];
+  if (live.length === 2) {
+    // The common case of window + one batch needs no heap
+    const [left, right] = live;
+    const merged: T[] = [];
+    let i = 0, j = 0;
+    while (i < left.length && j < right.length) merged.push(compare(left[i], right[j]) <= 0 ? left[i++] : right[j++]);
+    while (i < left.length) merged.push(left[i++]);
+    while (j < right.length) merged.push(right[j++]);
+    return merged;
+  }
+
+  // Heap entries are run indices; positions[r] is run r's next unread item
+  const positions = new Array<number>(live.length).fill(0);
+  const heap = live.map((_, r) => r);
+  const less = (r: number, s: number) => {
+    const order = compare(live[r][positions[r]], live[s][positions[s]]);
+    return order < 0 || (order === 0 && r < s);
+  };
+  const siftDown = (root: number) => {
+    const run = heap[root];
+    let parent = root;
+    while (2 * parent + 1 < heap.length) {
+      let child = 2 * parent + 1;
+      if (child + 1 < heap.length && less(heap[child + 1], heap[child])) child++;
+      if (!less(heap[child], run)) break;
+      heap[parent] = heap[child];
+      parent = child;
+    }
+    heap[parent] = run;
+  };
+  for (let root = Math.floor(heap.length / 2) - 1; root >= 0; root--) siftDown(root);
+
+  const merged: T[] = [];
+  while (heap.length > 0) {
+    const run = heap[0];
+    merged.push(live[run][positions[run]++]);
+    if (positions[run] === live[run].length) {
+      const last = heap.pop()!;
+      if (heap.length === 0) break;
+      heap[0] = last;
+    }
+    siftDown(0);
+  }
+  return merged;
+};
+
+export interface SortedWindowOptions<T> {
+  capacity: number; // most items kept; the oldest arrivals are evicted first
+  // Age limit: items more than maxAgeNs older than the newest item expire
+  timeOf?: (item: T) => bigint;
+  maxAgeNs?: bigint;
+}
+
+export interface WindowUpdate {
+  added: number;
+  evicted: number;
+  size: number;
+  sortTime: number; // ms sorting the new batches
+  mergeTime: number; // ms evicting and merging them into the window
+}
+
+export interface SortedWindow<T> {
+  // Sorts each batch, evicts expired items and merges the batches in. Batches
+  // are given oldest first.
+  insert(...batches: readonly (readonly T[])[]): WindowUpdate;
+  // First n items in window order (the top n for the window's key)
+  head(n: number): T[];
+  // Last n items, last item first
+  tail(n: number): T[];
+  // Window contents in arrival order, e.g. to time a full re-sort
+  arrivals(): T[];
+  clear(): void;
+  readonly items: readonly T[];
+  readonly size: number;
+  readonly key: KeyExtractor<T>;
+}
+
+// A sorted view over the most recent items of a stream. Only the new batch
+// is sorted; the rest of the window stays sorted and is merged with it, so
+// an update costs O(b log b + n) instead of O(n log n) for a full re-sort.
+export const createSortedWindow = <T>(
+  key: KeyExtractor<T>,
+  sorter: Sorter<T>,
+  { capacity, timeOf, maxAgeNs }: SortedWindowOptions<T>
+): SortedWindow<T> => {
+  if (!(capacity >= 1)) throw new Error('A sorted window needs a capacity of at least 1');
+  let sorted: T[] = [];
+  // Arrival order, one array per batch, oldest first
+  let batches: T[][] = [];
+  let newest: bigint | undefined;
+
+  return {
+    insert(...incoming) {
+      const added = incoming.reduce((sum, batch) => sum + batch.length, 0);
+      let sortTime = 0;
+      const runs = incoming.map(batch => {
+        const result = sorter.sort(batch, key);
+        sortTime += result.time;
+        return result.sorted;
+      });
+
+      const startTime = performance.now();
+      batches.push(...incoming.filter(batch => batch.length > 0).map(batch => [...batch]));
+      const expired = new Set<T>();
+
+      if (timeOf && maxAgeNs !== undefined) {
+        incoming.forEach(batch => batch.forEach(item => {
+          const time = timeOf(item);
+          if (newest === undefined || time > newest) newest = time;
+        }));
+        if (newest !== undefined) {
+          const cutoff = newest - maxAgeNs;
+          batches = batches.map(batch => batch.filter(item => {
+            if (timeOf(item) >= cutoff) return true;
+            expired.add(item);
+            return false;
+          })).filter(batch => batch.length > 0);
+        }
+      }
+
+      // Over capacity: drop the oldest arrivals, partially if need be
+      let excess = batches.reduce((sum, batch) => sum + batch.length, 0) - capacity;
+      while (excess > 0) {
+        const oldest = batches[0];
+        const dropped = oldest.splice(0, Math.min(excess, oldest.length));
+        dropped.forEach(item => expired.add(item));
+        excess -= dropped.length;
+        if (oldest.length === 0) batches.shift();
+      }
+
+      // New items that were evicted straight away never enter the merge
+      const retained = expired.size > 0 ? sorted.filter(item => !expired.has(item)) : sorted;
+      const evicted = sorted.length - retained.length;
+      sorted = kWayMerge([retained, ...runs.map(run => (expired.size > 0 ? run.filter(item => !expired.has(item)) : run))], key.compare);
+      const mergeTime = performance.now() - startTime;
+
+      return { added, evicted, size: sorted.length, sortTime, mergeTime };
+    },
+    head: n => sorted.slice(0, Math.max(0, n)),
+    tail: n => sorted.slice(Math.max(0, sorted.length - n)).reverse(),
+    arrivals: () => batches.flat(),
+    clear() {
+      sorted = [];
+      batches = [];
+      newest = undefined;
+    },
+    get items() {
+      return sorted;
+    },
+    get size() {
+      return sorted.length;
+    },
+    key,
+  };
+};
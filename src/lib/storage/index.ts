@@ -0,0 +1,2 @@
+export type { SavedSession, SessionConfig, SessionStore, SessionSummary } from './sessions';
+export { createSessionId, openSessionStore } from './sessions';
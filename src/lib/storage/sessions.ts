@@ -0,0 +1,92 @@
+import type { PerformancePoint, TimingSummary } from '../benchmark';
+import type { Distribution } from '../distributions';
+import type { SortSpec } from '../sorting';
+
+// Settings a run was made with
+export interface SessionConfig {
+  algorithm: string;
+  compared: string[];
+  sortFields: SortSpec[];
+  distribution: Distribution;
+  market: string;
+  seed: string;
+  rate: number;
+  trials: number;
+  warmup: number;
+}
+
+export interface SessionSummary {
+  totalTransactions: number;
+  avgSortTime: number;
+  times: Record<string, number>;
+  summaries: Record<string, TimingSummary>;
+}
+
+export interface SavedSession {
+  id: string;
+  name: string;
+  createdAt: string; // ISO-8601
+  updatedAt: string;
+  config: SessionConfig;
+  performance: PerformancePoint[];
+  summary: SessionSummary;
+}
+
+export interface SessionStore {
+  list(): Promise<SavedSession[]>; // newest first
+  get(id: string): Promise<SavedSession | undefined>;
+  save(session: SavedSession): Promise<void>; // insert or replace by id
+  rename(id: string, name: string): Promise<void>;
+  remove(id: string): Promise<void>;
+  close(): void;
+}
+
+const STORE = 'sessions';
+const VERSION = 1;
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const createSessionId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Sessions live in one object store keyed by id. Each call opens its own
+// transaction, so the store is safe to share across components.
+export const openSessionStore = async (
+  name = 'tradewiz',
+  factory: IDBFactory = indexedDB
+): Promise<SessionStore> => {
+  const open = factory.open(name, VERSION);
+  open.onupgradeneeded = () => {
+    if (!open.result.objectStoreNames.contains(STORE)) open.result.createObjectStore(STORE, { keyPath: 'id' });
+  };
+  const db = await request(open);
+
+  const store = (mode: IDBTransactionMode) => db.transaction(STORE, mode).objectStore(STORE);
+  const get = (id: string) => request<SavedSession | undefined>(store('readonly').get(id));
+
+  return {
+    list: async () => {
+      const sessions = await request<SavedSession[]>(store('readonly').getAll());
+      return sessions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+    get,
+    save: async (session) => {
+      await request(store('readwrite').put(session));
+    },
+    rename: async (id, newName) => {
+      const session = await get(id);
+      if (!session) throw new Error(`Unknown session: ${id}`);
+      await request(store('readwrite').put({ ...session, name: newName, updatedAt: new Date().toISOString() }));
+    },
+    remove: async (id) => {
+      await request(store('readwrite').delete(id));
+    },
+    close: () => db.close(),
+  };
+};
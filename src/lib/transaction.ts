@@ -0,0 +1,26 @@
+export type Side = 'buy' | 'sell';
+
+export interface Transaction {
+  id: string;
+  symbol: string;
+  price: number;
+  quantity: number; // shares
+  side: Side; // aggressor side
+  venue: string; // exchange MIC, e.g. XNAS
+  conditions: string[]; // trade condition codes, e.g. '@' regular, 'I' odd lot
+  sequence: number; // feed sequence number
+  timestamp: bigint; // nanoseconds since the Unix epoch
+  displayTime: string;
+}
+
+const NANOS_PER_MS = BigInt(1000000);
+
+// Nanosecond timestamps exceed Number.MAX_SAFE_INTEGER, so they are built
+// from an integral millisecond part and a sub-millisecond nanosecond offset
+export const toNanos = (epochMs: number, nanos = 0): bigint =>
+  BigInt(Math.floor(epochMs)) * NANOS_PER_MS + BigInt(Math.floor(nanos));
+
+// Traded value in integer cents; exact for any realistic price and size
+export const notionalCents = (t: Transaction) => Math.round(t.price * 100) * t.quantity;
+
+export const notional = (t: Transaction) => notionalCents(t) / 100;